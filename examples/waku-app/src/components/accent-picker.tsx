@@ -0,0 +1,18 @@
+'use client';
+
+import { setSignal } from 'kawa/client';
+
+export const AccentPicker = ({ value }: { value: string }) => {
+  return (
+    <input
+      type="color"
+      defaultValue={value}
+      onChange={(e) => {
+        setSignal('ui:accent', e.target.value, { endpoint: '/api/signals' }).catch((err) =>
+          console.error(err)
+        );
+      }}
+      className="h-8 w-16 cursor-pointer"
+    />
+  );
+};
@@ -0,0 +1,36 @@
+/**
+ * Demo Accent - Client-writable signal
+ *
+ * The color picker writes the `ui:accent` signal from the browser; the
+ * server re-renders this component for every subscriber.
+ */
+
+import { useServerState, reactive } from 'kawa';
+import { accent } from '../lib/signals/accent';
+import { AccentPicker } from './accent-picker';
+
+function DemoAccent() {
+  const color = useServerState(accent);
+
+  return (
+    <div className="p-4 rounded border" style={{ borderColor: color }}>
+      <h4 className="text-lg font-bold mb-3" style={{ color }}>
+        🎨 Shared Accent Color (client-writable signal)
+      </h4>
+
+      <div className="flex items-center gap-3 my-4">
+        <div className="h-10 w-10 rounded" style={{ backgroundColor: color }} />
+        <code className="text-sm">{color}</code>
+        <AccentPicker value={color} />
+      </div>
+
+      <div className="mt-3 p-2 bg-gray-50 rounded text-xs text-gray-700">
+        ⚡ <strong>Written from the browser!</strong>
+        <br />
+        setSignal() posts to the mutation endpoint; every open tab updates
+      </div>
+    </div>
+  );
+}
+
+export default reactive(DemoAccent);
@@ -0,0 +1,39 @@
+/**
+ * Demo Action Counter - Server actions inside a reactive component
+ *
+ * The button calls a server action that writes to a shared signal.
+ * The update streams back to every instance over the reactive connection.
+ */
+
+import { useServerState, reactive } from 'kawa';
+import { clicks } from '../lib/signals/clicks';
+import { incrementClicks } from '../lib/actions/clicks';
+
+function DemoActionCounter() {
+  const count = useServerState(clicks);
+
+  return (
+    <div className="p-4 bg-gradient-to-br from-orange-50 to-amber-50 rounded border border-orange-300">
+      <h4 className="text-lg font-bold mb-3 text-orange-800">🖱️ Live Click Counter (server action)</h4>
+
+      <div className="text-4xl font-bold text-orange-900 my-4">Clicks: {count}</div>
+
+      <form action={incrementClicks}>
+        <button
+          type="submit"
+          className="px-3 py-1 rounded bg-orange-500 text-white text-sm font-medium"
+        >
+          Increment
+        </button>
+      </form>
+
+      <div className="mt-3 p-2 bg-white/50 rounded text-xs text-orange-700">
+        ⚡ <strong>Interactive server component!</strong>
+        <br />
+        The action updates a signal; every open tab sees the new count
+      </div>
+    </div>
+  );
+}
+
+export default reactive(DemoActionCounter);
@@ -5,8 +5,7 @@
  * Uses the reactive() HOC to auto-wrap with <Reactive> boundary.
  */
 
-import { useReactive } from 'kawa';
-import { reactive } from './reactive-hoc';
+import { useReactive, reactive } from 'kawa';
 
 interface DemoCounterProps {
   increment?: number;
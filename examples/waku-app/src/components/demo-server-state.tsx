@@ -6,10 +6,10 @@
  * of individual components.
  */
 
-import { useServerState } from 'kawa';
+import { useServerState, reactive } from 'kawa';
 import { serverTime } from '../lib/signals/server-time';
 
-export default function DemoServerState() {
+function DemoServerState() {
   // Use the new useServerState hook to subscribe to a global signal
   const time = useServerState(serverTime);
 
@@ -39,3 +39,5 @@ export default function DemoServerState() {
     </div>
   );
 }
+
+export default reactive(DemoServerState);
@@ -6,8 +6,7 @@
  * Uses the reactive() HOC to auto-wrap with <Reactive> boundary.
  */
 
-import { useReactive } from 'kawa';
-import { reactive } from './reactive-hoc';
+import { useReactive, reactive } from 'kawa';
 import { serverTime } from '../lib/signals/server-time';
 
 interface DemoSharedTimeProps {
@@ -6,14 +6,14 @@
  * component-specific reactive streams.
  */
 
-import { useReactiveStream } from 'kawa';
+import { useReactiveStream, reactive } from 'kawa';
 
 interface DemoStreamClockProps {
   interval?: number;
   _reactiveData?: number;
 }
 
-export default function DemoStreamClock({ interval = 1000, _reactiveData }: DemoStreamClockProps) {
+function DemoStreamClock({ interval = 1000, _reactiveData }: DemoStreamClockProps) {
   // Use the new useReactiveStream hook for component-local reactive state
   const time = useReactiveStream(
     _reactiveData ?? Date.now(),
@@ -58,3 +58,5 @@ export default function DemoStreamClock({ interval = 1000, _reactiveData }: Demo
     </div>
   );
 }
+
+export default reactive(DemoStreamClock);
@@ -0,0 +1,14 @@
+'use server';
+
+/**
+ * Click Counter Actions
+ *
+ * Server actions called from the reactive click counter. The signal write
+ * is pushed to every subscribed component over its reactive stream.
+ */
+
+import { clicks } from '../signals/clicks';
+
+export async function incrementClicks() {
+  clicks.update((n) => n + 1);
+}
@@ -0,0 +1,15 @@
+/**
+ * Accent Color Signal
+ *
+ * Client-writable: browsers set it through the mutation endpoint, and the
+ * new color streams to every subscribed component.
+ */
+
+import { namespace } from 'kawa';
+
+const ui = namespace('ui', {
+  clientWritable: true,
+  validate: (value) => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value),
+});
+
+export const accent = ui.signal('accent', '#f97316');
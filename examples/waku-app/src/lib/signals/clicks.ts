@@ -0,0 +1,10 @@
+/**
+ * Shared Click Counter Signal
+ *
+ * Incremented by a server action and rendered by a reactive component.
+ * Keyed so the reactive endpoint can subscribe to it by signalId.
+ */
+
+import { keyedSignal } from 'kawa';
+
+export const clicks = keyedSignal('clicks', 0);
@@ -3,12 +3,13 @@
  *
  * Global signal that all components can subscribe to.
  * Demonstrates signal reuse across multiple components.
+ * Keyed so the reactive endpoint can subscribe to it by signalId.
  */
 
-import { signal } from 'kawa';
+import { keyedSignal } from 'kawa';
 
 // Create shared signal for server time
-export const serverTime = signal(Date.now());
+export const serverTime = keyedSignal('serverTime', Date.now());
 
 // Update every second
 setInterval(() => {
@@ -0,0 +1,12 @@
+/**
+ * Signal Mutation Endpoint
+ *
+ * Applies set/update patches from the browser to client-writable signals.
+ */
+
+import { createMutationHandler } from 'kawa';
+
+// Import client-writable signals so they are registered
+import '../../lib/signals/accent';
+
+export const POST = createMutationHandler();
@@ -6,7 +6,8 @@
  * - useServerState: Global signal subscriptions
  */
 
-import { Reactive } from '../components/reactive';
+import DemoStreamClock from '../components/demo-stream-clock';
+import DemoServerState from '../components/demo-server-state';
 
 export default function ComparisonPage() {
   return (
@@ -40,11 +41,7 @@ export default function ComparisonPage() {
           <h3 className="text-xl font-bold mb-3 text-gray-700">
             useReactiveStream()
           </h3>
-          <Reactive
-            streamKey="demo-stream-clock"
-            componentPath="./src/components/demo-stream-clock"
-            showDebug={true}
-          />
+          <DemoStreamClock />
           <div className="mt-4 p-3 bg-gray-50 rounded text-sm">
             <h4 className="font-bold mb-1">When to use:</h4>
             <ul className="list-disc list-inside text-gray-600 space-y-1">
@@ -60,11 +57,7 @@ export default function ComparisonPage() {
           <h3 className="text-xl font-bold mb-3 text-gray-700">
             useServerState()
           </h3>
-          <Reactive
-            streamKey="demo-server-state"
-            componentPath="./src/components/demo-server-state"
-            showDebug={true}
-          />
+          <DemoServerState />
           <div className="mt-4 p-3 bg-gray-50 rounded text-sm">
             <h4 className="font-bold mb-1">When to use:</h4>
             <ul className="list-disc list-inside text-gray-600 space-y-1">
@@ -86,18 +79,9 @@ export default function ComparisonPage() {
           They stay in sync because they share the same global state!
         </p>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <Reactive
-            streamKey="demo-server-state-1"
-            componentPath="./src/components/demo-server-state"
-          />
-          <Reactive
-            streamKey="demo-server-state-2"
-            componentPath="./src/components/demo-server-state"
-          />
-          <Reactive
-            streamKey="demo-server-state-3"
-            componentPath="./src/components/demo-server-state"
-          />
+          <DemoServerState />
+          <DemoServerState />
+          <DemoServerState />
         </div>
       </div>
 
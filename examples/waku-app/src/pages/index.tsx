@@ -9,6 +9,8 @@ import { DataFetch } from '../components/data-fetch';
 import DemoClock from '../components/demo-clock';
 import DemoCounter from '../components/demo-counter';
 import DemoSharedTime from '../components/demo-shared-time';
+import DemoActionCounter from '../components/demo-action-counter';
+import DemoAccent from '../components/demo-accent';
 
 // Import shared signals to start them
 import '../lib/signals/server-time';
@@ -32,7 +34,7 @@ export default async function HomePage() {
         </p>
         <pre className="bg-white p-3 rounded text-xs font-mono overflow-x-auto">
           {`// Just use the hook + reactive() HOC!
-import { useReactive, reactive } from './lib/reactive'
+import { useReactive, reactive } from 'kawa'
 
 function Clock({ interval = 1000 }) {
   const time = useReactive(Date.now(), (stream) => {
@@ -145,6 +147,17 @@ export default reactive(Clock)  // Wrap with HOC - no <Reactive> needed!`}
           <DemoSharedTime label="Shared Server Time #1" />
           <DemoSharedTime label="Shared Server Time #2" />
         </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          {/* Server actions work inside streamed components */}
+          <DemoActionCounter />
+          <DemoActionCounter />
+        </div>
+
+        <div className="mt-4">
+          {/* Client-writable signal, set from the browser */}
+          <DemoAccent />
+        </div>
       </div>
 
       <Link to="/about" className="mt-6 inline-block underline text-blue-600">
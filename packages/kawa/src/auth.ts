@@ -0,0 +1,108 @@
+/**
+ * Authorization - Per-namespace access control for signals
+ */
+
+import type { Signal } from './signal';
+import { getRequestContext } from './context';
+
+export type SignalOperation = 'read' | 'write';
+
+/**
+ * Decide whether the current request may read or write a signal
+ *
+ * `ctx` is the request context (see runWithContext), or `undefined` for
+ * server-internal code such as timers that runs outside any request.
+ */
+export type Authorizer<TContext = any> = (
+  ctx: TContext | undefined,
+  key: string,
+  op: SignalOperation
+) => boolean | Promise<boolean>;
+
+/**
+ * Check a value a client wants to write to a signal
+ *
+ * Return `false` (or throw) to reject the write.
+ */
+export type SignalValidator<TContext = any> = (
+  value: unknown,
+  key: string,
+  ctx: TContext | undefined
+) => boolean | Promise<boolean>;
+
+/**
+ * Thrown when an authorizer denies access to a signal
+ */
+export class SignalAuthorizationError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly op: SignalOperation
+  ) {
+    super(`Not authorized to ${op} signal: ${key}`);
+    this.name = 'SignalAuthorizationError';
+  }
+}
+
+/**
+ * Check whether a signal may be accessed
+ * (Internal - used by the reactive handler)
+ *
+ * Signals without an authorizer are always accessible.
+ */
+export async function isAuthorized(
+  sig: Signal<any>,
+  ctx: unknown,
+  op: SignalOperation
+): Promise<boolean> {
+  const key = (sig as any).__key as string | undefined;
+  const authorize = (sig as any).__authorize as Authorizer | undefined;
+
+  if (!key || !authorize) {
+    return true;
+  }
+
+  return authorize(ctx, key, op);
+}
+
+/**
+ * Apply a write to a signal once its authorizer allows it
+ * (Internal - used by signals)
+ *
+ * Synchronous denials throw a SignalAuthorizationError; async authorizers
+ * defer the write, and denied writes are dropped and logged since they
+ * can't be thrown to the caller.
+ */
+export function authorizeWrite(sig: Signal<any>, write: () => void): void {
+  const key = (sig as any).__key as string | undefined;
+  const authorize = (sig as any).__authorize as Authorizer | undefined;
+
+  if (!key || !authorize) {
+    write();
+    return;
+  }
+
+  const allowed = authorize(getRequestContext(), key, 'write');
+
+  if (typeof allowed === 'boolean') {
+    if (!allowed) {
+      throw new SignalAuthorizationError(key, 'write');
+    }
+    write();
+    return;
+  }
+
+  allowed.then(
+    (ok) => {
+      if (!ok) {
+        console.error(new SignalAuthorizationError(key, 'write').message);
+        return;
+      }
+      try {
+        write();
+      } catch (err) {
+        console.error((err as Error).message ?? err);
+      }
+    },
+    (err) => console.error(`Failed to authorize write to signal ${key}:`, err)
+  );
+}
@@ -0,0 +1,223 @@
+/**
+ * Signal Backends - Pluggable persistence for namespaced signals
+ *
+ * A backend stores signal values by key, notifies subscribers when keys
+ * change and lists keys by prefix. kawa ships adapters for RivetKit
+ * (`kawa/rivetkit`) and for memory, files, SQLite and Redis
+ * (`kawa/backends`); anything implementing SignalBackend works.
+ *
+ * Backends store opaque values: signals write versioned envelopes (see
+ * migrate.ts) and decode them when loading.
+ */
+
+import type { Cleanup, SignalOptions } from './signal';
+import type { CrdtDocument } from './crdt';
+import { validateValue } from './schema';
+import { fromPersisted, migrateValue, toPersisted } from './migrate';
+
+/**
+ * A stored value with its revision
+ */
+export interface BackendEntry {
+  key: string;
+  value: unknown;
+  // Incremented on every write (and delete) of the key
+  version: number;
+}
+
+/**
+ * A change to a key, as delivered to subscribers
+ */
+export interface BackendChange extends BackendEntry {
+  deleted?: boolean;
+  // `value` is a CRDT change to merge into the stored document, not all of it
+  delta?: boolean;
+}
+
+export type BackendListener = (change: BackendChange) => void;
+
+export interface BackendSetOptions {
+  /**
+   * Only write if the key's current revision is this one (`0`: the key
+   * doesn't exist); otherwise reject with a SignalConflictError
+   */
+  expectedVersion?: number;
+}
+
+/**
+ * Thrown when a compare-and-set finds the key at a different revision
+ */
+export class SignalConflictError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(
+      `Signal ${key} changed concurrently: expected version ${expectedVersion}, found ${actualVersion}`
+    );
+    this.name = 'SignalConflictError';
+  }
+}
+
+/**
+ * Reject a compare-and-set whose expected revision doesn't match
+ * (Internal - used by adapters)
+ *
+ * @throws SignalConflictError
+ */
+export function checkExpectedVersion(
+  key: string,
+  currentVersion: number,
+  options: BackendSetOptions | undefined
+): void {
+  const expected = options?.expectedVersion;
+  if (expected !== undefined && expected !== currentVersion) {
+    throw new SignalConflictError(key, expected, currentVersion);
+  }
+}
+
+/**
+ * Storage for signal values
+ */
+export interface SignalBackend {
+  /**
+   * Get a stored value, or undefined if the key doesn't exist
+   */
+  get(key: string): Promise<BackendEntry | undefined>;
+
+  /**
+   * Store a value and return the key's new revision
+   *
+   * @throws SignalConflictError if `expectedVersion` doesn't match
+   */
+  set(key: string, value: unknown, options?: BackendSetOptions): Promise<number>;
+
+  /**
+   * Store several values at once (atomically, where the backend can) and
+   * return their new revisions in order. Optional: queued writes fall back
+   * to one `set` per key.
+   */
+  setMany?(entries: Array<{ key: string; value: unknown }>): Promise<number[]>;
+
+  /**
+   * Merge a CRDT change into the document stored at a key (see crdt.ts)
+   * and return the key's new revision. Optional: without it, changes are
+   * merged locally and written back with compare-and-set.
+   */
+  merge?(key: string, change: CrdtDocument): Promise<number>;
+
+  /**
+   * Delete a key and return whether it existed
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Listen for changes to keys matching a pattern: `users:alice:*` matches
+   * every key starting with `users:alice:`, `*` matches everything, anything
+   * else matches one key. Resolves to a function that stops listening.
+   */
+  subscribe(pattern: string, listener: BackendListener): Promise<Cleanup>;
+
+  /**
+   * Get every stored value whose key starts with `prefix`, in key order
+   */
+  list(prefix: string): Promise<BackendEntry[]>;
+}
+
+let globalBackend: SignalBackend | null = null;
+
+/**
+ * Set the backend used by namespaces created without one
+ *
+ * Call it before the modules that create signals are loaded.
+ *
+ * @example
+ * ```typescript
+ * import { setGlobalBackend } from 'kawa';
+ * import { createFileBackend } from 'kawa/backends';
+ *
+ * setGlobalBackend(createFileBackend({ path: '.data/signals.json' }));
+ * ```
+ */
+export function setGlobalBackend(backend: SignalBackend | null): void {
+  globalBackend = backend;
+}
+
+/**
+ * Get the global backend (internal)
+ */
+export function getGlobalBackend(): SignalBackend | null {
+  return globalBackend;
+}
+
+/**
+ * Match a key against a subscription pattern (see SignalBackend.subscribe)
+ * (Internal - used by adapters)
+ */
+export function matchesKeyPattern(key: string, pattern: string): boolean {
+  return pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern;
+}
+
+/**
+ * Unwrap, migrate and validate a stored value
+ * (Internal - used when loading signals and applying remote updates)
+ *
+ * @throws if the value can't be migrated or doesn't match the schema
+ */
+export async function decodeStoredSignal(
+  key: string,
+  stored: unknown,
+  options: SignalOptions<any> = {}
+): Promise<{ value: any; storedVersion: number }> {
+  const { schema, version = 0, migrate } = options;
+  const unwrapped = fromPersisted(stored);
+
+  let value = await migrateValue(key, unwrapped.value, unwrapped.version, version, migrate);
+  if (schema) {
+    value = await validateValue(schema, value, key);
+  }
+
+  return { value, storedVersion: unwrapped.version };
+}
+
+/**
+ * Load a signal from its backend
+ * (Internal - used by namespaces)
+ *
+ * Values stored by an older `version` are migrated and written back.
+ * Stored values that can't be migrated or don't match `schema` are ignored
+ * (and logged), so corrupt or outdated state never reaches the signal.
+ */
+export async function loadSignal(
+  key: string,
+  backend: SignalBackend,
+  options: SignalOptions<any> = {}
+): Promise<any | undefined> {
+  try {
+    const entry = await backend.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    const version = options.version ?? 0;
+    const { value, storedVersion } = await decodeStoredSignal(key, entry.value, options);
+
+    if (storedVersion !== version) {
+      console.log(`[reactive-rsc] Migrated signal ${key} from v${storedVersion} to v${version}`);
+      try {
+        // Only write back over the value that was migrated, never a newer one
+        await backend.set(key, toPersisted(value, version), { expectedVersion: entry.version });
+      } catch (error) {
+        if (!(error instanceof SignalConflictError)) throw error;
+        console.log(`[reactive-rsc] Signal ${key} changed while migrating, not writing it back`);
+      }
+    }
+
+    return value;
+  } catch (error) {
+    console.error(`[reactive-rsc] Failed to load signal ${key}:`, error);
+    return undefined;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * File Backend - Signal storage in a JSON file
+ *
+ * Keeps every value in memory and rewrites the whole file (atomically, via
+ * a temporary file) after each change. Meant for development and small
+ * single-server apps; other processes writing the same file are not
+ * noticed, so use SQLite, Redis or RivetKit for more.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { checkExpectedVersion, type BackendEntry, type SignalBackend } from '../backend';
+import { ChangeListeners } from './listeners';
+
+export interface FileBackendOptions {
+  /**
+   * Path of the JSON file; created (with its directory) on the first write
+   */
+  path: string;
+}
+
+interface FileContents {
+  entries: Record<string, { value: unknown; version: number }>;
+  revisions: Record<string, number>;
+}
+
+/**
+ * Create a backend that persists values to a JSON file
+ *
+ * @example
+ * ```typescript
+ * import { setGlobalBackend } from 'kawa';
+ * import { createFileBackend } from 'kawa/backends';
+ *
+ * setGlobalBackend(createFileBackend({ path: '.data/signals.json' }));
+ * ```
+ */
+export function createFileBackend(options: FileBackendOptions): SignalBackend {
+  const { path } = options;
+  const listeners = new ChangeListeners();
+
+  let contents: Promise<FileContents> | undefined;
+  // Writes run one after another so the file never goes backwards
+  let writing: Promise<void> = Promise.resolve();
+
+  const load = () =>
+    (contents ??= readFile(path, 'utf8').then(
+      (text): FileContents => JSON.parse(text),
+      (error): FileContents => {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return { entries: {}, revisions: {} };
+        }
+        // Try again on the next access instead of caching the failure
+        contents = undefined;
+        throw error;
+      }
+    ));
+
+  const persist = (data: FileContents) => {
+    const text = JSON.stringify(data);
+    writing = writing
+      .catch(() => {})
+      .then(async () => {
+        const temporary = `${path}.tmp`;
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(temporary, text);
+        await rename(temporary, path);
+      });
+    return writing;
+  };
+
+  const nextVersion = (data: FileContents, key: string) => {
+    const version = (data.revisions[key] ?? 0) + 1;
+    data.revisions[key] = version;
+    return version;
+  };
+
+  return {
+    async get(key) {
+      const data = await load();
+      const entry = data.entries[key];
+      return entry && { key, ...structuredClone(entry) };
+    },
+
+    async set(key, value, options) {
+      const data = await load();
+      checkExpectedVersion(key, data.entries[key]?.version ?? 0, options);
+      const version = nextVersion(data, key);
+      data.entries[key] = { value: structuredClone(value), version };
+      await persist(data);
+      listeners.emit({ key, value: structuredClone(value), version });
+      return version;
+    },
+
+    async setMany(batch) {
+      const data = await load();
+      const versions = batch.map(({ key, value }) => {
+        const version = nextVersion(data, key);
+        data.entries[key] = { value: structuredClone(value), version };
+        return version;
+      });
+
+      // One rewrite of the file for the whole batch
+      await persist(data);
+      batch.forEach(({ key, value }, i) =>
+        listeners.emit({ key, value: structuredClone(value), version: versions[i] })
+      );
+      return versions;
+    },
+
+    async delete(key) {
+      const data = await load();
+      if (!(key in data.entries)) return false;
+      delete data.entries[key];
+      const version = nextVersion(data, key);
+      await persist(data);
+      listeners.emit({ key, value: undefined, version, deleted: true });
+      return true;
+    },
+
+    async subscribe(pattern, listener) {
+      return listeners.add(pattern, listener);
+    },
+
+    async list(prefix) {
+      const data = await load();
+      return Object.keys(data.entries)
+        .filter((key) => key.startsWith(prefix))
+        .sort()
+        .map((key): BackendEntry => ({ key, ...structuredClone(data.entries[key]) }));
+    },
+  };
+}
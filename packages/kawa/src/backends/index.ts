@@ -0,0 +1,30 @@
+/**
+ * Built-in signal backends for kawa
+ *
+ * Persist signals without RivetKit. Pass a backend to a namespace, or make
+ * it the default for every namespace with setGlobalBackend.
+ *
+ * @example
+ * ```typescript
+ * import { namespace } from 'kawa';
+ * import { createFileBackend } from 'kawa/backends';
+ *
+ * const settings = namespace("settings", {
+ *   backend: createFileBackend({ path: '.data/settings.json' }),
+ * });
+ * ```
+ */
+
+export { createMemoryBackend } from './memory';
+export { createFileBackend } from './file';
+export type { FileBackendOptions } from './file';
+export { createSqliteBackend } from './sqlite';
+export type { SqliteBackendOptions, SqliteDatabaseLike } from './sqlite';
+export { createRedisBackend } from './redis';
+export type {
+  RedisBackendOptions,
+  RedisClientLike,
+  RedisMultiLike,
+  RedisSubscriberLike,
+} from './redis';
+export type { SignalBackend, BackendEntry, BackendChange, BackendListener } from '../backend';
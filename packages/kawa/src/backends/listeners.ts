@@ -0,0 +1,42 @@
+/**
+ * Change listeners shared by the built-in backends
+ */
+
+import { matchesKeyPattern, type BackendChange, type BackendListener } from '../backend';
+
+/**
+ * Subscribers by key pattern
+ * (Internal - used by backend adapters)
+ */
+export class ChangeListeners {
+  private listeners = new Set<{ pattern: string; listener: BackendListener }>();
+
+  add(pattern: string, listener: BackendListener): () => void {
+    const entry = { pattern, listener };
+    this.listeners.add(entry);
+    return () => {
+      this.listeners.delete(entry);
+    };
+  }
+
+  /**
+   * Whether anyone still listens to exactly this pattern
+   */
+  has(pattern: string): boolean {
+    for (const entry of this.listeners) {
+      if (entry.pattern === pattern) return true;
+    }
+    return false;
+  }
+
+  emit(change: BackendChange): void {
+    for (const { pattern, listener } of this.listeners) {
+      if (!matchesKeyPattern(change.key, pattern)) continue;
+      try {
+        listener(change);
+      } catch (error) {
+        console.error(`[reactive-rsc] Backend listener failed for ${change.key}:`, error);
+      }
+    }
+  }
+}
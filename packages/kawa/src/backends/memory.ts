@@ -0,0 +1,72 @@
+/**
+ * Memory Backend - Signal storage in the current process
+ *
+ * Nothing survives a restart. Useful in tests, and to share values between
+ * namespaces in one process with the same semantics as a real backend.
+ */
+
+import { checkExpectedVersion, type BackendEntry, type SignalBackend } from '../backend';
+import { ChangeListeners } from './listeners';
+
+/**
+ * Create a backend that keeps values in memory
+ *
+ * @example
+ * ```typescript
+ * import { createMemoryBackend } from 'kawa/backends';
+ *
+ * const scratch = namespace("scratch", { backend: createMemoryBackend() });
+ * ```
+ */
+export function createMemoryBackend(): SignalBackend {
+  const entries = new Map<string, BackendEntry>();
+  // Revisions survive deletes so a re-created key never reuses one
+  const revisions = new Map<string, number>();
+  const listeners = new ChangeListeners();
+
+  const nextVersion = (key: string) => {
+    const version = (revisions.get(key) ?? 0) + 1;
+    revisions.set(key, version);
+    return version;
+  };
+
+  const backend: SignalBackend = {
+    async get(key) {
+      const entry = entries.get(key);
+      // Copy so callers can't mutate what's stored
+      return entry && structuredClone(entry);
+    },
+
+    async set(key, value, options) {
+      checkExpectedVersion(key, entries.get(key)?.version ?? 0, options);
+      const version = nextVersion(key);
+      const entry = { key, value: structuredClone(value), version };
+      entries.set(key, entry);
+      listeners.emit(structuredClone(entry));
+      return version;
+    },
+
+    async setMany(batch) {
+      return Promise.all(batch.map(({ key, value }) => backend.set(key, value)));
+    },
+
+    async delete(key) {
+      if (!entries.delete(key)) return false;
+      listeners.emit({ key, value: undefined, version: nextVersion(key), deleted: true });
+      return true;
+    },
+
+    async subscribe(pattern, listener) {
+      return listeners.add(pattern, listener);
+    },
+
+    async list(prefix) {
+      return [...entries.values()]
+        .filter((entry) => entry.key.startsWith(prefix))
+        .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+        .map((entry) => structuredClone(entry));
+    },
+  };
+
+  return backend;
+}
@@ -0,0 +1,207 @@
+/**
+ * Redis Backend - Signal storage and change notifications through Redis
+ *
+ * Each signal is a hash (`value`, `version`) updated in a MULTI, and every
+ * change is published on a per-key channel, so servers sharing a Redis
+ * instance see each other's writes. Subscriptions use PSUBSCRIBE with the
+ * key pattern, so each server only receives the keys it has signals for.
+ *
+ * Bring your own clients from the `redis` package (v4+). Pub/sub needs a
+ * connection of its own: pass `client.duplicate()` as `subscriber`.
+ */
+
+import { SignalConflictError, type BackendChange, type BackendEntry, type SignalBackend } from '../backend';
+
+/**
+ * The commands kawa uses on a node-redis client
+ */
+export interface RedisClientLike {
+  hGetAll(key: string): Promise<Record<string, string>>;
+  multi(): RedisMultiLike;
+  publish(channel: string, message: string): Promise<unknown>;
+  eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown>;
+  scanIterator(options: { MATCH: string; COUNT?: number }): AsyncIterable<string | string[]>;
+}
+
+export interface RedisMultiLike {
+  hSet(key: string, field: string, value: string): RedisMultiLike;
+  hDel(key: string, field: string): RedisMultiLike;
+  hIncrBy(key: string, field: string, increment: number): RedisMultiLike;
+  exec(): Promise<unknown[]>;
+}
+
+/**
+ * A node-redis client in subscriber mode
+ */
+export interface RedisSubscriberLike {
+  pSubscribe(pattern: string, listener: RedisMessageListener): Promise<unknown>;
+  pUnsubscribe(pattern: string, listener?: RedisMessageListener): Promise<unknown>;
+}
+
+export type RedisMessageListener = (message: string, channel: string) => void;
+
+export interface RedisBackendOptions {
+  client: RedisClientLike;
+  subscriber: RedisSubscriberLike;
+
+  /**
+   * Prefix of every Redis key and channel kawa uses
+   * @default 'kawa:'
+   */
+  prefix?: string;
+}
+
+// Compare-and-set: write only if the key is at the expected revision (0: missing)
+const COMPARE_AND_SET = `
+local current = 0
+if redis.call('HEXISTS', KEYS[1], 'value') == 1 then
+  current = tonumber(redis.call('HGET', KEYS[1], 'version'))
+end
+if current ~= tonumber(ARGV[2]) then
+  return {0, current}
+end
+redis.call('HSET', KEYS[1], 'value', ARGV[1])
+return {1, redis.call('HINCRBY', KEYS[1], 'version', 1)}
+`;
+
+// Escape glob characters so keys are matched literally
+function escapeGlob(text: string): string {
+  return text.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+// Translate a key pattern (see SignalBackend.subscribe) to a Redis glob
+function toGlob(pattern: string): string {
+  return pattern.endsWith('*') ? `${escapeGlob(pattern.slice(0, -1))}*` : escapeGlob(pattern);
+}
+
+/**
+ * Create a backend that persists values to Redis and shares changes over
+ * pub/sub
+ *
+ * @example
+ * ```typescript
+ * import { createClient } from 'redis';
+ * import { setGlobalBackend } from 'kawa';
+ * import { createRedisBackend } from 'kawa/backends';
+ *
+ * const client = await createClient({ url: process.env.REDIS_URL }).connect();
+ * const subscriber = await client.duplicate().connect();
+ *
+ * setGlobalBackend(createRedisBackend({ client, subscriber }));
+ * ```
+ */
+export function createRedisBackend(options: RedisBackendOptions): SignalBackend {
+  const { client, subscriber, prefix = 'kawa:' } = options;
+  const dataPrefix = `${prefix}signal:`;
+  const channelPrefix = `${prefix}changes:`;
+
+  const publish = (change: BackendChange) =>
+    client.publish(`${channelPrefix}${change.key}`, JSON.stringify(change));
+
+  const backend: SignalBackend = {
+    async get(key) {
+      const hash = await client.hGetAll(`${dataPrefix}${key}`);
+      if (hash.value === undefined) return undefined;
+      return { key, value: JSON.parse(hash.value), version: Number(hash.version) };
+    },
+
+    async set(key, value, options) {
+      if (options?.expectedVersion !== undefined) {
+        const [written, version] = (await client.eval(COMPARE_AND_SET, {
+          keys: [`${dataPrefix}${key}`],
+          arguments: [JSON.stringify(value), String(options.expectedVersion)],
+        })) as [number, number];
+
+        if (!written) {
+          throw new SignalConflictError(key, options.expectedVersion, Number(version));
+        }
+
+        await publish({ key, value, version: Number(version) });
+        return Number(version);
+      }
+
+      // Deleted keys keep their `version` field so revisions keep counting
+      const [, version] = await client
+        .multi()
+        .hSet(`${dataPrefix}${key}`, 'value', JSON.stringify(value))
+        .hIncrBy(`${dataPrefix}${key}`, 'version', 1)
+        .exec();
+
+      await publish({ key, value, version: Number(version) });
+      return Number(version);
+    },
+
+    async setMany(batch) {
+      const multi = client.multi();
+      for (const { key, value } of batch) {
+        multi
+          .hSet(`${dataPrefix}${key}`, 'value', JSON.stringify(value))
+          .hIncrBy(`${dataPrefix}${key}`, 'version', 1);
+      }
+
+      // Replies alternate: hSet, hIncrBy, hSet, hIncrBy, ...
+      const replies = await multi.exec();
+      const versions = batch.map((_, i) => Number(replies[i * 2 + 1]));
+
+      await Promise.all(
+        batch.map(({ key, value }, i) => publish({ key, value, version: versions[i] }))
+      );
+      return versions;
+    },
+
+    async delete(key) {
+      const [removed, version] = await client
+        .multi()
+        .hDel(`${dataPrefix}${key}`, 'value')
+        .hIncrBy(`${dataPrefix}${key}`, 'version', 1)
+        .exec();
+
+      if (!Number(removed)) return false;
+
+      await publish({ key, value: undefined, version: Number(version), deleted: true });
+      return true;
+    },
+
+    async subscribe(pattern, listener) {
+      const glob = `${escapeGlob(channelPrefix)}${toGlob(pattern)}`;
+      const onMessage = (message: string) => {
+        let change: BackendChange;
+        try {
+          change = JSON.parse(message);
+        } catch (error) {
+          console.error(`[reactive-rsc] Invalid change message on ${glob}:`, error);
+          return;
+        }
+        listener(change);
+      };
+
+      await subscriber.pSubscribe(glob, onMessage);
+
+      return () => {
+        subscriber.pUnsubscribe(glob, onMessage).catch((error) => {
+          console.error(`[reactive-rsc] Failed to unsubscribe from ${glob}:`, error);
+        });
+      };
+    },
+
+    async list(keyPrefix) {
+      const keys: string[] = [];
+
+      // node-redis v4 yields keys one by one, v5 in batches
+      for await (const batch of client.scanIterator({
+        MATCH: `${escapeGlob(dataPrefix + keyPrefix)}*`,
+        COUNT: 100,
+      })) {
+        keys.push(...(Array.isArray(batch) ? batch : [batch]));
+      }
+
+      const entries = await Promise.all(
+        keys.sort().map((redisKey) => backend.get(redisKey.slice(dataPrefix.length)))
+      );
+
+      return entries.filter((entry): entry is BackendEntry => entry !== undefined);
+    },
+  };
+
+  return backend;
+}
@@ -0,0 +1,154 @@
+/**
+ * SQLite Backend - Signal storage in a SQLite table
+ *
+ * Bring your own database handle: `node:sqlite`, `better-sqlite3` and
+ * `bun:sqlite` all fit SqliteDatabaseLike. Change notifications only reach
+ * subscribers in the process that made the change; use Redis or RivetKit
+ * to coordinate several servers.
+ */
+
+import { checkExpectedVersion, type BackendEntry, type SignalBackend } from '../backend';
+import { ChangeListeners } from './listeners';
+
+/**
+ * Minimal synchronous SQLite handle
+ */
+export interface SqliteDatabaseLike {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: any[]): unknown;
+    get(...params: any[]): unknown;
+    all(...params: any[]): unknown[];
+  };
+}
+
+export interface SqliteBackendOptions {
+  database: SqliteDatabaseLike;
+
+  /**
+   * Table to store signals in; created if missing
+   * @default 'kawa_signals'
+   */
+  table?: string;
+}
+
+interface Row {
+  key: string;
+  value: string | null;
+  version: number;
+}
+
+/**
+ * Create a backend that persists values to SQLite
+ *
+ * @example
+ * ```typescript
+ * import { DatabaseSync } from 'node:sqlite';
+ * import { createSqliteBackend } from 'kawa/backends';
+ *
+ * const backend = createSqliteBackend({ database: new DatabaseSync('signals.db') });
+ * ```
+ */
+export function createSqliteBackend(options: SqliteBackendOptions): SignalBackend {
+  const { database, table = 'kawa_signals' } = options;
+
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`Invalid SQLite table name: ${table}`);
+  }
+
+  // Deleted keys keep their row (with a NULL value) so revisions keep counting
+  database.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, value TEXT, version INTEGER NOT NULL)`
+  );
+
+  const selectOne = database.prepare(
+    `SELECT key, value, version FROM ${table} WHERE key = ? AND value IS NOT NULL`
+  );
+  const selectPrefix = database.prepare(
+    `SELECT key, value, version FROM ${table} WHERE instr(key, ?) = 1 AND value IS NOT NULL ORDER BY key`
+  );
+  const upsert = database.prepare(
+    `INSERT INTO ${table} (key, value, version) VALUES (?, ?, 1)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value, version = ${table}.version + 1
+     RETURNING version`
+  );
+  const remove = database.prepare(
+    `UPDATE ${table} SET value = NULL, version = version + 1
+     WHERE key = ? AND value IS NOT NULL RETURNING version`
+  );
+
+  const listeners = new ChangeListeners();
+
+  const toEntry = (row: Row): BackendEntry => ({
+    key: row.key,
+    value: JSON.parse(row.value!),
+    version: row.version,
+  });
+
+  return {
+    async get(key) {
+      const row = selectOne.get(key) as Row | undefined;
+      return row ? toEntry(row) : undefined;
+    },
+
+    async set(key, value, options) {
+      const json = JSON.stringify(value);
+      let version: number;
+
+      if (options?.expectedVersion === undefined) {
+        version = (upsert.get(key, json) as { version: number }).version;
+      } else {
+        // Lock the database so other processes can't write between check and write
+        database.exec('BEGIN IMMEDIATE');
+        try {
+          const current = selectOne.get(key) as Row | undefined;
+          checkExpectedVersion(key, current?.version ?? 0, options);
+          version = (upsert.get(key, json) as { version: number }).version;
+          database.exec('COMMIT');
+        } catch (error) {
+          database.exec('ROLLBACK');
+          throw error;
+        }
+      }
+
+      listeners.emit({ key, value: JSON.parse(json), version });
+      return version;
+    },
+
+    async setMany(batch) {
+      const written = batch.map(({ key, value }) => ({ key, json: JSON.stringify(value) }));
+      const versions: number[] = [];
+
+      database.exec('BEGIN');
+      try {
+        for (const { key, json } of written) {
+          versions.push((upsert.get(key, json) as { version: number }).version);
+        }
+        database.exec('COMMIT');
+      } catch (error) {
+        database.exec('ROLLBACK');
+        throw error;
+      }
+
+      written.forEach(({ key, json }, i) =>
+        listeners.emit({ key, value: JSON.parse(json), version: versions[i] })
+      );
+      return versions;
+    },
+
+    async delete(key) {
+      const row = remove.get(key) as { version: number } | undefined;
+      if (!row) return false;
+      listeners.emit({ key, value: undefined, version: row.version, deleted: true });
+      return true;
+    },
+
+    async subscribe(pattern, listener) {
+      return listeners.add(pattern, listener);
+    },
+
+    async list(prefix) {
+      return (selectPrefix.all(prefix) as Row[]).map(toEntry);
+    },
+  };
+}
@@ -0,0 +1,444 @@
+/**
+ * Reactive Connection - One shared connection per endpoint
+ *
+ * Every <Reactive> instance on a page subscribes through the same
+ * connection, so a dashboard with many live widgets uses a single HTTP
+ * connection or WebSocket instead of one per widget.
+ *
+ * Dropped connections are re-opened with exponential backoff, and every
+ * subscription resumes from the last event it received.
+ */
+
+import {
+  decodeChunkFrame,
+  type ControlMessage,
+  type ReactiveFrame,
+  type ReactiveTransport,
+  type SocketMessage,
+  type SubscribeRequest,
+} from '../protocol';
+
+export interface SubscriptionHandlers {
+  /**
+   * A complete RSC payload was received
+   */
+  onPayload: (chunks: Uint8Array[]) => void;
+  onError: (error: string) => void;
+  onStatus: (connected: boolean) => void;
+}
+
+interface ClientSubscription {
+  token: string;
+  handlers: SubscriptionHandlers;
+  // RSC chunks of the payload currently being received
+  chunks: Uint8Array[] | null;
+  // Event ID of the last complete payload, to resume after a reconnect
+  lastEventId?: string;
+}
+
+// Keep an idle connection open briefly so re-renders don't reconnect
+const IDLE_CLOSE_DELAY = 1000;
+
+// Reconnect backoff: 1s, 2s, 4s, ... capped at 30s
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30_000;
+
+let nextSubscriptionId = 0;
+
+/**
+ * Decode a base64 RSC chunk back to raw bytes
+ */
+function fromBase64(chunk: string): Uint8Array {
+  const binary = atob(chunk);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Subscription bookkeeping and frame dispatch shared by both transports
+ */
+export abstract class ReactiveConnection {
+  protected subscriptions = new Map<string, ClientSubscription>();
+  private closeTimer: ReturnType<typeof setTimeout> | undefined;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private reconnectAttempts = 0;
+
+  constructor(protected endpoint: string) {}
+
+  /**
+   * Subscribe with a signed stream token
+   *
+   * Returns an unsubscribe function.
+   */
+  subscribe(token: string, handlers: SubscriptionHandlers): () => void {
+    const id = `s${++nextSubscriptionId}`;
+    this.subscriptions.set(id, { token, handlers, chunks: null });
+
+    clearTimeout(this.closeTimer);
+
+    // While waiting to reconnect, the subscription is sent once connected
+    if (!this.reconnectTimer) {
+      this.open();
+    }
+
+    if (this.isConnected()) {
+      handlers.onStatus(true);
+      this.sendSubscribe({ id, token });
+    }
+
+    return () => {
+      if (!this.subscriptions.delete(id)) return;
+
+      this.sendUnsubscribe(id);
+
+      if (this.subscriptions.size === 0) {
+        this.closeTimer = setTimeout(() => {
+          if (this.subscriptions.size > 0) return;
+          console.log(`[Reactive] Closing connection`);
+          clearTimeout(this.reconnectTimer);
+          this.reconnectTimer = undefined;
+          this.reconnectAttempts = 0;
+          this.close();
+        }, IDLE_CLOSE_DELAY);
+      }
+    };
+  }
+
+  protected abstract open(): void;
+  protected abstract close(): void;
+  protected abstract isConnected(): boolean;
+  protected abstract sendSubscribe(request: SubscribeRequest): void;
+  protected abstract sendUnsubscribe(id: string): void;
+
+  /**
+   * The transport is ready: (re)subscribe everything
+   */
+  protected handleConnected(): void {
+    this.reconnectAttempts = 0;
+    this.subscriptions.forEach((sub, id) => {
+      sub.handlers.onStatus(true);
+      this.sendSubscribe({ id, token: sub.token, lastEventId: sub.lastEventId });
+    });
+  }
+
+  /**
+   * The transport dropped; reconnect with backoff and resume every subscription
+   */
+  protected handleDisconnected(): void {
+    this.subscriptions.forEach((sub) => {
+      sub.chunks = null;
+      sub.handlers.onStatus(false);
+    });
+
+    if (this.subscriptions.size === 0 || this.reconnectTimer) return;
+
+    // Jitter spreads out clients reconnecting after a deploy
+    const delay =
+      Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY) *
+      (0.5 + Math.random() / 2);
+    this.reconnectAttempts++;
+
+    console.log(`[Reactive] Reconnecting in ${Math.round(delay)}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      if (this.subscriptions.size > 0) {
+        this.open();
+      }
+    }, delay);
+  }
+
+  protected handleChunk(id: string, chunk: Uint8Array): void {
+    this.subscriptions.get(id)?.chunks?.push(chunk);
+  }
+
+  protected handleFrame(frame: ReactiveFrame): void {
+    if (frame.type === 'connected' || frame.type === 'pong') return;
+
+    const sub = this.subscriptions.get(frame.id);
+    if (!sub) return;
+
+    switch (frame.type) {
+      case 'subscribed':
+      case 'unsubscribed':
+        return;
+      case 'RSC_START':
+        sub.chunks = [];
+        return;
+      case 'RSC_CHUNK':
+        sub.chunks?.push(fromBase64(frame.chunk));
+        return;
+      case 'RSC_END': {
+        const chunks = sub.chunks;
+        sub.chunks = null;
+        if (chunks) {
+          sub.lastEventId = frame.eventId;
+          sub.handlers.onPayload(chunks);
+        }
+        return;
+      }
+      case 'RSC_ERROR':
+      case 'SUBSCRIBE_ERROR':
+        sub.chunks = null;
+        sub.handlers.onError(frame.error);
+        return;
+    }
+  }
+}
+
+// Missed SSE heartbeats tolerated before the connection is considered dead
+const HEARTBEAT_TOLERANCE = 2.5;
+
+/**
+ * SSE transport: frames arrive on an EventSource, control messages are POSTed
+ */
+class SseConnection extends ReactiveConnection {
+  private eventSource: EventSource | null = null;
+  private connectionId: string | null = null;
+  private pendingSubscribe = new Map<string, SubscribeRequest>();
+  private pendingUnsubscribe = new Set<string>();
+  private flushScheduled = false;
+  private heartbeatInterval = 0;
+  private livenessTimer: ReturnType<typeof setTimeout> | undefined;
+
+  protected open(): void {
+    if (this.eventSource) return;
+
+    const eventSource = new EventSource(this.endpoint);
+    this.eventSource = eventSource;
+
+    eventSource.addEventListener('heartbeat', () => this.resetLiveness());
+
+    eventSource.onmessage = (event) => {
+      this.resetLiveness();
+
+      try {
+        const frame = JSON.parse(event.data) as ReactiveFrame;
+
+        if (frame.type === 'connected') {
+          this.connectionId = frame.connectionId;
+          this.heartbeatInterval = frame.heartbeatInterval ?? 0;
+          this.resetLiveness();
+          this.handleConnected();
+          return;
+        }
+
+        this.handleFrame(frame);
+      } catch (err) {
+        console.error(`[Reactive] Error parsing event:`, err);
+      }
+    };
+
+    eventSource.onerror = (error) => {
+      // Reconnect ourselves instead of using EventSource's fixed retry; the
+      // server will issue a new connection ID and every subscription resumes
+      console.error(`[Reactive] SSE error:`, error);
+      this.close();
+      this.handleDisconnected();
+    };
+  }
+
+  protected close(): void {
+    clearTimeout(this.livenessTimer);
+    this.eventSource?.close();
+    this.eventSource = null;
+    this.connectionId = null;
+    this.pendingSubscribe.clear();
+    this.pendingUnsubscribe.clear();
+  }
+
+  protected isConnected(): boolean {
+    return this.connectionId !== null;
+  }
+
+  /**
+   * Reconnect when the server goes quiet for longer than its heartbeats allow
+   */
+  private resetLiveness(): void {
+    clearTimeout(this.livenessTimer);
+    if (!this.heartbeatInterval) return;
+
+    this.livenessTimer = setTimeout(() => {
+      console.error(`[Reactive] No heartbeat received, reconnecting`);
+      this.close();
+      this.handleDisconnected();
+    }, this.heartbeatInterval * HEARTBEAT_TOLERANCE);
+  }
+
+  protected sendSubscribe(request: SubscribeRequest): void {
+    this.pendingSubscribe.set(request.id, request);
+    this.scheduleFlush();
+  }
+
+  protected sendUnsubscribe(id: string): void {
+    if (this.pendingSubscribe.delete(id) || !this.connectionId) return;
+    this.pendingUnsubscribe.add(id);
+    this.scheduleFlush();
+  }
+
+  /**
+   * Send queued control messages in one request per tick
+   */
+  private scheduleFlush(): void {
+    if (this.flushScheduled) return;
+    this.flushScheduled = true;
+
+    queueMicrotask(() => {
+      this.flushScheduled = false;
+      if (!this.connectionId) return;
+      if (this.pendingSubscribe.size === 0 && this.pendingUnsubscribe.size === 0) return;
+
+      const message: ControlMessage = {
+        connectionId: this.connectionId,
+        subscribe: Array.from(this.pendingSubscribe.values()),
+        unsubscribe: Array.from(this.pendingUnsubscribe),
+      };
+      this.pendingSubscribe.clear();
+      this.pendingUnsubscribe.clear();
+
+      fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+      })
+        .then((response) => {
+          if (!response.ok) {
+            throw new Error(`Control message failed: ${response.status}`);
+          }
+        })
+        .catch((err) => {
+          console.error(`[Reactive] Error sending control message:`, err);
+          message.subscribe?.forEach(({ id }) =>
+            this.subscriptions.get(id)?.handlers.onError(String(err))
+          );
+        });
+    });
+  }
+}
+
+// Heartbeat timing for WebSocket connections
+const PING_INTERVAL = 15_000;
+const PONG_TIMEOUT = 10_000;
+
+/**
+ * WebSocket transport: frames, binary RSC chunks and control messages share
+ * one socket
+ */
+class SocketConnection extends ReactiveConnection {
+  private socket: WebSocket | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | undefined;
+  private pongTimer: ReturnType<typeof setTimeout> | undefined;
+
+  protected open(): void {
+    if (this.socket) return;
+
+    // Relative endpoints resolve against the page, switching to ws(s)://
+    const url = new URL(this.endpoint, location.href);
+    url.protocol = url.protocol.replace(/^http/, 'ws');
+
+    const socket = new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.pingTimer = setInterval(() => this.ping(), PING_INTERVAL);
+      this.handleConnected();
+    };
+
+    socket.onmessage = (event) => {
+      if (event.data instanceof ArrayBuffer) {
+        const { id, chunk } = decodeChunkFrame(new Uint8Array(event.data));
+        this.handleChunk(id, chunk);
+        return;
+      }
+
+      try {
+        const frame = JSON.parse(event.data) as ReactiveFrame;
+        if (frame.type === 'pong') {
+          clearTimeout(this.pongTimer);
+        }
+        this.handleFrame(frame);
+      } catch (err) {
+        console.error(`[Reactive] Error parsing message:`, err);
+      }
+    };
+
+    socket.onclose = () => this.drop(socket);
+  }
+
+  /**
+   * Forget a closed or unresponsive socket and reconnect if still needed
+   */
+  private drop(socket: WebSocket): void {
+    if (this.socket !== socket) return;
+
+    console.error(`[Reactive] WebSocket closed`);
+    this.reset();
+    socket.close();
+    this.handleDisconnected();
+  }
+
+  protected close(): void {
+    const socket = this.socket;
+    this.reset();
+    socket?.close();
+  }
+
+  protected isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  protected sendSubscribe(request: SubscribeRequest): void {
+    this.send({ type: 'subscribe', ...request });
+  }
+
+  protected sendUnsubscribe(id: string): void {
+    this.send({ type: 'unsubscribe', id });
+  }
+
+  private send(message: SocketMessage): void {
+    if (this.isConnected()) {
+      this.socket!.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Ping the server; a missing pong means the connection is dead
+   */
+  private ping(): void {
+    this.send({ type: 'ping' });
+    clearTimeout(this.pongTimer);
+    const socket = this.socket;
+    this.pongTimer = setTimeout(() => {
+      console.error(`[Reactive] No pong received, closing socket`);
+      if (socket) this.drop(socket);
+    }, PONG_TIMEOUT);
+  }
+
+  private reset(): void {
+    clearInterval(this.pingTimer);
+    clearTimeout(this.pongTimer);
+    this.socket = null;
+  }
+}
+
+const connections = new Map<string, ReactiveConnection>();
+
+/**
+ * Get the shared connection for an endpoint
+ */
+export function getConnection(
+  endpoint: string,
+  transport: ReactiveTransport = 'sse'
+): ReactiveConnection {
+  const cacheKey = `${transport}:${endpoint}`;
+  let connection = connections.get(cacheKey);
+  if (!connection) {
+    connection =
+      transport === 'websocket' ? new SocketConnection(endpoint) : new SseConnection(endpoint);
+    connections.set(cacheKey, connection);
+  }
+  return connection;
+}
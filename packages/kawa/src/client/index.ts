@@ -0,0 +1,15 @@
+/**
+ * kawa/client
+ *
+ * Client half of kawa: the <Reactive> boundary that subscribes to the
+ * reactive endpoint and renders streamed RSC payloads, and helpers for
+ * writing client-writable signals.
+ */
+
+'use client';
+
+export { Reactive } from './reactive';
+export type { ReactiveProps } from './reactive';
+export { mutateSignals, setSignal, updateSignal } from './mutations';
+export type { MutationOptions } from './mutations';
+export type { SignalPatch } from '../protocol';
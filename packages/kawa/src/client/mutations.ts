@@ -0,0 +1,64 @@
+/**
+ * Signal Mutations - Write client-writable signals from the browser
+ *
+ * Thin wrappers around the endpoint served by `createMutationHandler()`.
+ * Written values reach every subscribed <Reactive> through its stream.
+ */
+
+import type { MutationRequest, SignalPatch } from '../protocol';
+
+export interface MutationOptions {
+  /**
+   * URL of the mutation endpoint
+   * @default '/api/signals'
+   */
+  endpoint?: string;
+}
+
+/**
+ * Apply several patches at once; either all of them are applied or none
+ */
+export async function mutateSignals(
+  mutations: SignalPatch[],
+  { endpoint = '/api/signals' }: MutationOptions = {}
+): Promise<void> {
+  const body: MutationRequest = { mutations };
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`[Reactive] Mutation failed (${response.status}): ${await response.text()}`);
+  }
+}
+
+/**
+ * Replace the value of a signal
+ *
+ * @example
+ * ```typescript
+ * await setSignal('cursors:alice', { x: 10, y: 20 });
+ * ```
+ */
+export function setSignal<T>(key: string, value: T, options?: MutationOptions): Promise<void> {
+  return mutateSignals([{ op: 'set', key, value }], options);
+}
+
+/**
+ * Shallow-merge fields into the object value of a signal
+ *
+ * @example
+ * ```typescript
+ * await updateSignal<Cursor>('cursors:alice', { x: 10 });
+ * ```
+ */
+export function updateSignal<T extends Record<string, unknown>>(
+  key: string,
+  patch: Partial<T>,
+  options?: MutationOptions
+): Promise<void> {
+  return mutateSignals([{ op: 'update', key, value: patch }], options);
+}
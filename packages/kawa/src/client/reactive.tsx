@@ -0,0 +1,169 @@
+/**
+ * Reactive Component Wrapper
+ *
+ * Client component that subscribes to reactive streams and renders RSC payloads.
+ * All instances share one connection to the endpoint served by
+ * `createReactiveHandler()`.
+ *
+ * Server actions inside streamed components go through the app's RSC action
+ * endpoint, like anywhere else on the page. Signal writes made by an action
+ * flow back to the component over its existing subscription.
+ */
+
+'use client';
+
+import { useEffect, useState, Suspense, type ReactNode } from 'react';
+import {
+  callServer as defaultCallServer,
+  createFromReadableStream,
+  type CallServerCallback,
+} from '@vitejs/plugin-rsc/browser';
+import { getConnection } from './connection';
+import type { ReactiveTransport } from '../protocol';
+
+export interface ReactiveProps {
+  /**
+   * Signed stream token issued by the server (see createStreamToken)
+   */
+  token: string;
+
+  /**
+   * URL of the reactive endpoint (GET opens the SSE stream, POST subscribes)
+   * @default '/api/reactive'
+   */
+  endpoint?: string;
+
+  /**
+   * Transport used to reach the endpoint. With 'websocket', `endpoint` must
+   * point at a socket served by createReactiveSocketHandler().
+   * @default 'sse'
+   */
+  transport?: ReactiveTransport;
+
+  /**
+   * Shown while connecting when there is no server-rendered content
+   */
+  fallback?: ReactNode;
+
+  /**
+   * Shown instead of the component when the stream reports an error
+   */
+  errorFallback?: ReactNode;
+
+  /**
+   * Server-rendered content displayed until the first update arrives
+   */
+  children?: ReactNode;
+
+  /**
+   * Handle server action calls from streamed components
+   * @default the callback registered by the framework (setServerCallback)
+   */
+  callServer?: CallServerCallback;
+
+  showDebug?: boolean;
+}
+
+/**
+ * Reactive wrapper for server components with reactive state
+ *
+ * Subscribes through the shared connection and renders streamed RSC payloads.
+ */
+export function Reactive({
+  token,
+  endpoint = '/api/reactive',
+  transport = 'sse',
+  fallback,
+  errorFallback,
+  children,
+  callServer = defaultCallServer,
+  showDebug = false,
+}: ReactiveProps) {
+  const [isConnected, setIsConnected] = useState(false);
+  const [updateCount, setUpdateCount] = useState(0);
+  const [lastUpdate, setLastUpdate] = useState<string | null>(null);
+  const [renderedComponent, setRenderedComponent] = useState<ReactNode>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    // Decoding is async; drop results that finish after a newer payload
+    let latestPayload = 0;
+
+    const unsubscribe = getConnection(endpoint, transport).subscribe(token, {
+      onStatus: (connected) => {
+        if (!active) return;
+        setIsConnected(connected);
+        if (connected) setError(null);
+      },
+
+      onPayload: async (chunks) => {
+        const payload = ++latestPayload;
+
+        try {
+          // Replay the received chunks as a stream for the RSC client
+          const rscStream = new ReadableStream<Uint8Array>({
+            start(controller) {
+              chunks.forEach((chunk) => controller.enqueue(chunk));
+              controller.close();
+            },
+          });
+
+          const component = await createFromReadableStream<ReactNode>(rscStream, { callServer });
+
+          if (!active || payload !== latestPayload) return;
+
+          setRenderedComponent(component);
+          setError(null);
+          setUpdateCount((prev) => prev + 1);
+          setLastUpdate(new Date().toISOString());
+        } catch (err) {
+          console.error('[Reactive] Error parsing RSC stream:', err);
+          if (active) setError(String(err));
+        }
+      },
+
+      onError: (err) => {
+        console.error(`[Reactive] RSC error:`, err);
+        if (active) setError(err);
+      },
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [token, endpoint, transport, callServer]);
+
+  const loading = fallback ?? <div className="text-xs text-gray-500">Connecting...</div>;
+
+  let content: ReactNode;
+  if (error && errorFallback !== undefined) {
+    content = errorFallback;
+  } else if (renderedComponent) {
+    content = <Suspense fallback={children ?? loading}>{renderedComponent}</Suspense>;
+  } else {
+    content = children ?? loading;
+  }
+
+  return (
+    <div>
+      {showDebug && (
+        <div className="mb-2 text-xs flex items-center gap-2 text-gray-600">
+          <span
+            className={`inline-block w-2 h-2 rounded-full ${
+              isConnected ? 'bg-green-500' : 'bg-red-500'
+            }`}
+          />
+          <span>
+            {isConnected ? 'Connected' : 'Disconnected'} | Updates: {updateCount}
+            {lastUpdate && ` | Last: ${new Date(lastUpdate).toLocaleTimeString()}`}
+          </span>
+          {error && <span className="text-red-600">Error: {error}</span>}
+        </div>
+      )}
+
+      {content}
+    </div>
+  );
+}
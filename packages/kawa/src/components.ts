@@ -0,0 +1,204 @@
+/**
+ * Component Registry - Server-side lookup of reactive components
+ *
+ * Every component wrapped with reactive() is registered under a stable ID,
+ * so the reactive endpoint can re-render it from the ID the client sends.
+ * defineReactiveComponents() builds an explicit whitelist instead.
+ */
+
+import { createHash } from 'node:crypto';
+import type { ComponentType } from 'react';
+
+/**
+ * Resolves the `component` query parameter to a server component
+ */
+export type ComponentResolver = (
+  componentId: string
+) => ComponentType<any> | undefined | Promise<ComponentType<any> | undefined>;
+
+/**
+ * Lazily loaded component module with an explicit export name
+ */
+export interface LazyComponentEntry {
+  load: () => Promise<Record<string, unknown>>;
+  /**
+   * @default 'default'
+   */
+  export?: string;
+}
+
+export type ComponentEntry = ComponentType<any> | LazyComponentEntry;
+
+const componentRegistry = new Map<string, ComponentType<any>>();
+
+/**
+ * Props of a reactive component instance, ready to be signed into its token
+ */
+export interface ForwardedProps {
+  // Component ID and a hash of the props, the same on every server and render
+  propsKey: string;
+  props: Record<string, unknown>;
+}
+
+/**
+ * Register a reactive component under a stable ID
+ *
+ * Registering the same ID again replaces the previous component, which keeps
+ * hot module reloading working.
+ */
+export function registerComponent(id: string, Component: ComponentType<any>): void {
+  componentRegistry.set(id, Component);
+}
+
+/**
+ * Look up a registered reactive component by ID
+ */
+export function getComponent(id: string): ComponentType<any> | undefined {
+  return componentRegistry.get(id);
+}
+
+function isLazyEntry(entry: ComponentEntry): entry is LazyComponentEntry {
+  return typeof entry === 'object' && entry !== null && 'load' in entry;
+}
+
+/**
+ * Define the whitelist of components the reactive endpoint may render
+ *
+ * Keys are the component IDs sent by the client (the `id` given to
+ * reactive()). Unknown IDs resolve to `undefined`, which the handler answers
+ * with 404. Lazy entries are loaded once and cached.
+ *
+ * @example
+ * ```typescript
+ * const components = defineReactiveComponents({
+ *   DemoClock,
+ *   DemoCounter: { load: () => import('./components/demo-counter') },
+ *   Ticker: { load: () => import('./components/ticker'), export: 'Ticker' },
+ * });
+ *
+ * export const GET = createReactiveHandler({
+ *   resolveComponent: components,
+ *   renderToReadableStream,
+ * });
+ * ```
+ */
+export function defineReactiveComponents(
+  entries: Record<string, ComponentEntry>
+): ComponentResolver {
+  const loaded = new Map<string, Promise<ComponentType<any> | undefined>>();
+
+  return (componentId: string) => {
+    if (!Object.prototype.hasOwnProperty.call(entries, componentId)) {
+      return undefined;
+    }
+
+    const entry = entries[componentId]!;
+    if (!isLazyEntry(entry)) {
+      return entry;
+    }
+
+    if (!loaded.has(componentId)) {
+      const exportName = entry.export ?? 'default';
+      loaded.set(
+        componentId,
+        entry.load().then((componentModule) => {
+          const Component = componentModule[exportName] as ComponentType<any> | undefined;
+          if (!Component) {
+            console.error(
+              `[defineReactiveComponents] Export "${exportName}" not found for component: ${componentId}`
+            );
+          }
+          return Component;
+        }).catch((err) => {
+          // Allow a later request to retry a failed import
+          loaded.delete(componentId);
+          throw err;
+        })
+      );
+    }
+
+    return loaded.get(componentId);
+  };
+}
+
+/**
+ * Describe why a prop value can't be forwarded, or return undefined if it can
+ */
+function describeUnserializable(value: unknown, seen: Set<object>): string | undefined {
+  if (value === null || value === undefined) return undefined;
+
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return undefined;
+    case 'number':
+      return Number.isFinite(value) ? undefined : `a non-finite number (${value})`;
+    case 'function':
+      return 'a function';
+    case 'object':
+      break;
+    default:
+      return `a ${typeof value}`;
+  }
+
+  const obj = value as object;
+  if (seen.has(obj)) return 'a circular reference';
+
+  const proto = Object.getPrototypeOf(obj);
+  if (!Array.isArray(obj) && proto !== Object.prototype && proto !== null) {
+    return `an instance of ${proto?.constructor?.name ?? 'an unknown class'}`;
+  }
+  if ('$$typeof' in obj) return 'a React element';
+
+  seen.add(obj);
+  for (const [key, child] of Object.entries(obj)) {
+    const reason = describeUnserializable(child, seen);
+    if (reason) return `${reason} at "${key}"`;
+  }
+  seen.delete(obj);
+
+  return undefined;
+}
+
+/**
+ * Hash used to build short props keys; long enough that different props
+ * don't collide
+ */
+function hashString(input: string): string {
+  return createHash('sha256').update(input).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Prepare the original props of a reactive component instance for re-renders
+ * (Internal - used by the reactive() HOC)
+ *
+ * Props travel in the signed stream token, so re-renders on any server
+ * receive the same props without trusting values from the client.
+ * Throws if a prop can't be serialized.
+ */
+export function forwardComponentProps(
+  componentId: string,
+  props: Record<string, unknown>
+): ForwardedProps {
+  const forwarded: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(props)) {
+    if (name === '_reactiveData' || value === undefined) continue;
+
+    const reason = describeUnserializable(value, new Set());
+    if (reason) {
+      throw new Error(
+        `reactive(${componentId}): prop "${name}" is ${reason} and can't be forwarded to ` +
+          `re-renders. Only JSON-serializable props (strings, numbers, booleans, null, ` +
+          `arrays and plain objects) are supported.`
+      );
+    }
+
+    forwarded[name] = value;
+  }
+
+  return {
+    propsKey: `${componentId}:${hashString(JSON.stringify(forwarded))}`,
+    props: forwarded,
+  };
+}
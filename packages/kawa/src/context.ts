@@ -0,0 +1,38 @@
+/**
+ * Request Context - Per-request state for authorization
+ *
+ * Carries a context object (derived from the incoming Request) through
+ * async server code, so signal reads and writes can be authorized against
+ * whoever triggered them.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+const contextStorage = new AsyncLocalStorage<unknown>();
+
+/**
+ * Run a function with a request context active
+ *
+ * Wrap server actions (or any code that writes signals on behalf of a user)
+ * so namespace authorizers receive the caller's context.
+ *
+ * @example
+ * ```typescript
+ * export async function movePlayer(formData: FormData) {
+ *   'use server';
+ *   return runWithContext(await getSession(), () => {
+ *     position.set({ x: Number(formData.get('x')), y: Number(formData.get('y')) });
+ *   });
+ * }
+ * ```
+ */
+export function runWithContext<T>(ctx: unknown, fn: () => T): T {
+  return contextStorage.run(ctx, fn);
+}
+
+/**
+ * Get the active request context, if any
+ */
+export function getRequestContext<TContext = unknown>(): TContext | undefined {
+  return contextStorage.getStore() as TContext | undefined;
+}
@@ -0,0 +1,301 @@
+/**
+ * CRDT Signals - Collaborative lists, maps and text
+ *
+ * A CRDT signal holds a CRDT document (see crdt.ts) and exposes its plain
+ * value (an array, object or string) as `.value`, so server components
+ * render it like any other signal. Edits go through its methods: they
+ * apply to the local document and only the change is sent to the backend,
+ * where it's merged with other servers' edits instead of overwriting them.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { signal as preactSignal } from '@preact/signals-core';
+import {
+  computed,
+  hydrated,
+  touchSignal,
+  trackReady,
+  type Listener,
+  type Signal,
+} from './signal';
+import { authorizeWrite } from './auth';
+import { syncCrdtChange } from './write-queue';
+import type { SignalBackend } from './backend';
+import {
+  deleteChange,
+  documentValue,
+  emptyDocument,
+  highestCounter,
+  initialDocument,
+  insertChange,
+  isCrdtDocument,
+  mapChange,
+  mergeDocuments,
+  type CrdtDocument,
+  type CrdtListDocument,
+  type CrdtMapDocument,
+  type CrdtTextDocument,
+} from './crdt';
+
+// Identifies this process in the IDs of its edits
+const replica = randomUUID();
+
+interface CrdtSignal<T> extends Signal<T> {
+  /**
+   * Resolves once the stored document was loaded and merged in.
+   * Already resolved for signals without a backend.
+   */
+  readonly ready: Promise<void>;
+}
+
+/**
+ * A collaborative array: concurrent inserts and deletes all survive
+ */
+export interface CrdtList<T> extends CrdtSignal<T[]> {
+  insert(index: number, ...values: T[]): void;
+  push(...values: T[]): void;
+  delete(index: number, count?: number): void;
+}
+
+/**
+ * A collaborative object: concurrent writes to different keys all survive,
+ * and the last write to a key wins
+ */
+export interface CrdtMap<T> extends CrdtSignal<Record<string, T>> {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
+  delete(key: string): void;
+}
+
+/**
+ * A collaborative string: concurrent insertions and deletions all survive
+ */
+export interface CrdtText extends CrdtSignal<string> {
+  insert(index: number, text: string): void;
+  delete(index: number, length?: number): void;
+}
+
+/**
+ * Create the signal around a document; `methods` builds the editing API
+ * from the current document, a function applying a change, and an ID source
+ */
+function createCrdtSignal<D extends CrdtDocument, S extends CrdtSignal<any>>(
+  initial: D,
+  methods: (
+    doc: () => D,
+    edit: (change: D) => void,
+    nextId: () => string
+  ) => Omit<S, keyof CrdtSignal<any>>,
+  replace: (doc: D, value: any, nextId: () => string) => D
+): S {
+  const doc = preactSignal(initial);
+  const value = computed(() => documentValue(doc.value));
+  let counter = highestCounter(initial);
+  let ready = hydrated;
+  let synced = false;
+  const nextId = () => `${++counter}@${replica}`;
+
+  const merge = (incoming: CrdtDocument) => {
+    counter = Math.max(counter, highestCounter(incoming));
+    doc.value = mergeDocuments(doc.value, incoming);
+  };
+
+  const write = (change: D) => {
+    // May attach an evicted signal again, so before looking up the backend
+    touchSignal(sig, true);
+    merge(change);
+
+    const key = (sig as any).__key as string | undefined;
+    const backend = (sig as any).__backend as SignalBackend | undefined;
+    if (key && backend) {
+      // The first write sends the whole document, so the stored one also
+      // holds the initial content later changes refer to
+      syncCrdtChange(key, synced ? change : doc.value, backend);
+      synced = true;
+    }
+  };
+
+  const edit = (change: D) => authorizeWrite(sig, () => write(change));
+
+  const sig = {
+    get value() {
+      touchSignal(sig);
+      return value.value;
+    },
+    subscribe(listener: Listener<any>) {
+      // Count both ends of a subscription as access, so ttl runs from the last one
+      touchSignal(sig);
+      const unsubscribe = value.subscribe(listener);
+      return () => {
+        unsubscribe();
+        touchSignal(sig);
+      };
+    },
+    __isSignal: true as const,
+    get ready() {
+      return ready;
+    },
+    ...methods(() => doc.value, edit, nextId),
+  } as S;
+
+  // Merge the stored document in; edits made meanwhile are kept
+  // (Internal - used by namespaces)
+  (sig as any).__hydrate = (load: () => Promise<unknown>) => {
+    // Attached (again): the stored document may lack what was synced before
+    synced = false;
+    ready = trackReady(
+      load().then((stored) => {
+        if (isCrdtDocument(stored) && stored.crdt === initial.crdt) {
+          merge(stored);
+        }
+      })
+    );
+  };
+
+  // Merge a document or change written elsewhere, without syncing it back
+  // (Internal - used by cross-server propagation)
+  (sig as any).__merge = (incoming: unknown) => {
+    if (isCrdtDocument(incoming) && incoming.crdt === initial.crdt) {
+      merge(incoming);
+    }
+  };
+
+  // Go back to the initial document after the key was deleted elsewhere;
+  // the next edit stores the whole document again
+  // (Internal - used by cross-server propagation)
+  (sig as any).__reset = () => {
+    doc.value = initial;
+    synced = false;
+  };
+
+  // Edit the document to hold a plain value from a snapshot, once the
+  // write was authorized (Internal - used by namespace.restore)
+  (sig as any).__replace = (value: unknown) => write(replace(doc.value, value, nextId));
+
+  (sig as any).__hasSubscribers = (value as any).__hasSubscribers;
+  (sig as any).__crdt = initial.crdt;
+
+  return sig;
+}
+
+/**
+ * Change replacing every element of a list or text document
+ */
+function replaceSequence<D extends CrdtListDocument | CrdtTextDocument>(
+  doc: D,
+  values: unknown[],
+  nextId: () => string
+): D {
+  const removed = deleteChange(doc, 0, Infinity);
+  const emptied = mergeDocuments(doc, removed);
+  return mergeDocuments(removed, insertChange(emptied, 0, values, nextId));
+}
+
+/**
+ * Change replacing every key of a map document
+ */
+function replaceEntries(
+  doc: CrdtMapDocument,
+  value: Record<string, unknown>,
+  nextId: () => string
+): CrdtMapDocument {
+  let change = emptyDocument('map');
+  for (const key of Object.keys(documentValue(doc))) {
+    if (!(key in value)) {
+      change = mergeDocuments(change, mapChange(key, undefined, nextId()));
+    }
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    change = mergeDocuments(change, mapChange(key, entry, nextId()));
+  }
+  return change;
+}
+
+/**
+ * Change editing a document to hold a plain value, e.g. from a snapshot
+ * (Internal - used by namespace.restore for CRDT signals not created in
+ * this process)
+ */
+export function replaceChange(doc: CrdtDocument, value: unknown): CrdtDocument {
+  let counter = highestCounter(doc);
+  const nextId = () => `${++counter}@${replica}`;
+
+  switch (doc.crdt) {
+    case 'map':
+      return replaceEntries(doc, value as Record<string, unknown>, nextId);
+    case 'text':
+      return replaceSequence(doc, [...(value as string)], nextId);
+    default:
+      return replaceSequence(doc, value as unknown[], nextId);
+  }
+}
+
+/**
+ * Create a collaborative list
+ * (Internal - use `namespace.crdt.list`)
+ */
+export function crdtList<T>(initialValue: T[] = []): CrdtList<T> {
+  const initial = initialDocument('list', initialValue) as CrdtListDocument;
+
+  return createCrdtSignal<CrdtListDocument, CrdtList<T>>(
+    initial,
+    (doc, edit, nextId) => ({
+      insert(index: number, ...values: T[]) {
+        edit(insertChange(doc(), index, values, nextId));
+      },
+      push(...values: T[]) {
+        edit(insertChange(doc(), Infinity, values, nextId));
+      },
+      delete(index: number, count = 1) {
+        edit(deleteChange(doc(), index, count));
+      },
+    }),
+    replaceSequence
+  );
+}
+
+/**
+ * Create a collaborative map
+ * (Internal - use `namespace.crdt.map`)
+ */
+export function crdtMap<T>(initialValue: Record<string, T> = {}): CrdtMap<T> {
+  const initial = initialDocument('map', initialValue) as CrdtMapDocument;
+
+  return createCrdtSignal<CrdtMapDocument, CrdtMap<T>>(
+    initial,
+    (doc, edit, nextId) => ({
+      get(key: string) {
+        const entry = doc().entries[key];
+        return entry && !entry.deleted ? (entry.value as T) : undefined;
+      },
+      set(key: string, value: T) {
+        edit(mapChange(key, value, nextId()));
+      },
+      delete(key: string) {
+        edit(mapChange(key, undefined, nextId()));
+      },
+    }),
+    replaceEntries
+  );
+}
+
+/**
+ * Create a collaborative text
+ * (Internal - use `namespace.crdt.text`)
+ */
+export function crdtText(initialValue = ''): CrdtText {
+  const initial = initialDocument('text', initialValue) as CrdtTextDocument;
+
+  return createCrdtSignal<CrdtTextDocument, CrdtText>(
+    initial,
+    (doc, edit, nextId) => ({
+      insert(index: number, text: string) {
+        edit(insertChange(doc(), index, [...text], nextId));
+      },
+      delete(index: number, length = 1) {
+        edit(deleteChange(doc(), index, length));
+      },
+    }),
+    (doc, value: string, nextId) => replaceSequence(doc, [...value], nextId)
+  );
+}
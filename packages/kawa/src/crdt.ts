@@ -0,0 +1,255 @@
+/**
+ * CRDT Documents - Conflict-free state for collaborative signals
+ *
+ * Lists, maps and text are stored as plain JSON documents that merge
+ * deterministically: merging is commutative, associative and idempotent,
+ * so servers can apply each other's changes in any order, any number of
+ * times, and still agree. A change is itself a (small) document holding
+ * only what changed, so deltas and full documents merge the same way.
+ *
+ * - Lists and text order elements by the element they were inserted after
+ *   (RGA); concurrent inserts at one position are ordered by their IDs, and
+ *   deleted elements stay as tombstones.
+ * - Maps keep, per key, the write with the highest ID (last writer wins).
+ *
+ * IDs are `counter@replica`: a Lamport counter and the writing process.
+ */
+
+export interface CrdtListItem {
+  // ID of the element this one was inserted after, null for the start
+  after: string | null;
+  value: unknown;
+  deleted?: true;
+}
+
+export interface CrdtListDocument {
+  crdt: 'list';
+  items: Record<string, CrdtListItem>;
+}
+
+export interface CrdtTextDocument {
+  crdt: 'text';
+  // One item per character
+  items: Record<string, CrdtListItem>;
+}
+
+export interface CrdtMapEntry {
+  id: string;
+  value?: unknown;
+  deleted?: true;
+}
+
+export interface CrdtMapDocument {
+  crdt: 'map';
+  entries: Record<string, CrdtMapEntry>;
+}
+
+export type CrdtDocument = CrdtListDocument | CrdtTextDocument | CrdtMapDocument;
+
+export type CrdtKind = CrdtDocument['crdt'];
+
+// Replica of initial content, identical on every server so it merges once
+const INITIAL_REPLICA = 'init';
+
+/**
+ * Whether a stored value is a CRDT document
+ * (Internal - used by backends and CRDT signals)
+ */
+export function isCrdtDocument(value: unknown): value is CrdtDocument {
+  if (typeof value !== 'object' || value === null) return false;
+  const { crdt } = value as CrdtDocument;
+  return crdt === 'map'
+    ? typeof (value as CrdtMapDocument).entries === 'object'
+    : (crdt === 'list' || crdt === 'text') &&
+        typeof (value as CrdtListDocument).items === 'object';
+}
+
+function parseId(id: string): [counter: number, replica: string] {
+  const at = id.indexOf('@');
+  return [Number(id.slice(0, at)), id.slice(at + 1)];
+}
+
+/**
+ * Order IDs: positive if `a` is newer than `b`
+ */
+function compareIds(a: string, b: string): number {
+  const [counterA, replicaA] = parseId(a);
+  const [counterB, replicaB] = parseId(b);
+  if (counterA !== counterB) return counterA - counterB;
+  return replicaA < replicaB ? -1 : replicaA > replicaB ? 1 : 0;
+}
+
+/**
+ * Highest Lamport counter used in a document
+ * (Internal - used by CRDT signals to keep their clock ahead)
+ */
+export function highestCounter(doc: CrdtDocument): number {
+  const ids =
+    doc.crdt === 'map'
+      ? Object.values(doc.entries).map((entry) => entry.id)
+      : Object.keys(doc.items);
+  return ids.reduce((max, id) => Math.max(max, parseId(id)[0]), 0);
+}
+
+/**
+ * An empty document of a kind
+ */
+export function emptyDocument(kind: 'list'): CrdtListDocument;
+export function emptyDocument(kind: 'text'): CrdtTextDocument;
+export function emptyDocument(kind: 'map'): CrdtMapDocument;
+export function emptyDocument(kind: CrdtKind): CrdtDocument;
+export function emptyDocument(kind: CrdtKind): CrdtDocument {
+  return kind === 'map' ? { crdt: 'map', entries: {} } : { crdt: kind, items: {} };
+}
+
+/**
+ * Merge two documents of the same kind into a new one
+ *
+ * @throws if the documents are of different kinds
+ */
+export function mergeDocuments<D extends CrdtDocument>(a: D, b: CrdtDocument): D {
+  if (a.crdt !== b.crdt) {
+    throw new Error(`Cannot merge a CRDT ${b.crdt} into a ${a.crdt}`);
+  }
+
+  if (a.crdt === 'map') {
+    const entries = { ...a.entries };
+    for (const [key, entry] of Object.entries((b as CrdtMapDocument).entries)) {
+      const current = entries[key];
+      if (!current || isNewer(entry, current)) {
+        entries[key] = entry;
+      }
+    }
+    return { crdt: 'map', entries } as D;
+  }
+
+  const items = { ...a.items };
+  for (const [id, item] of Object.entries((b as CrdtListDocument).items)) {
+    const current = items[id];
+    // An element never changes once inserted, except for being deleted
+    if (!current) {
+      items[id] = item;
+    } else if (item.deleted && !current.deleted) {
+      items[id] = { ...current, deleted: true };
+    }
+  }
+  return { crdt: a.crdt, items } as D;
+}
+
+function isNewer(a: CrdtMapEntry, b: CrdtMapEntry): boolean {
+  const order = compareIds(a.id, b.id);
+  if (order !== 0) return order > 0;
+  // Same ID from different initial content: any deterministic choice will do
+  return JSON.stringify(a) > JSON.stringify(b);
+}
+
+/**
+ * The visible elements of a list or text document, in order, with their IDs
+ */
+function sequence(doc: CrdtListDocument | CrdtTextDocument): Array<[string, unknown]> {
+  const children = new Map<string | null, string[]>();
+  for (const [id, item] of Object.entries(doc.items)) {
+    const siblings = children.get(item.after);
+    if (siblings) siblings.push(id);
+    else children.set(item.after, [id]);
+  }
+
+  // Depth-first from the start, newer siblings first. Elements inserted
+  // after one that hasn't arrived yet stay hidden until it does.
+  const result: Array<[string, unknown]> = [];
+  const stack = [...(children.get(null) ?? [])].sort(compareIds);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    const item = doc.items[id];
+    if (!item.deleted) result.push([id, item.value]);
+    stack.push(...(children.get(id) ?? []).sort(compareIds));
+  }
+  return result;
+}
+
+/**
+ * The plain value of a document: an array, a string or an object
+ */
+export function documentValue(doc: CrdtListDocument): unknown[];
+export function documentValue(doc: CrdtTextDocument): string;
+export function documentValue(doc: CrdtMapDocument): Record<string, unknown>;
+export function documentValue(doc: CrdtDocument): unknown;
+export function documentValue(doc: CrdtDocument): unknown {
+  if (doc.crdt === 'map') {
+    const value: Record<string, unknown> = {};
+    for (const key of Object.keys(doc.entries).sort()) {
+      const entry = doc.entries[key];
+      if (!entry.deleted) value[key] = entry.value;
+    }
+    return value;
+  }
+
+  const values = sequence(doc).map(([, value]) => value);
+  return doc.crdt === 'text' ? values.join('') : values;
+}
+
+/**
+ * Change to insert values at an index of a list or text document
+ *
+ * `nextId` is called once per value, in order.
+ */
+export function insertChange<D extends CrdtListDocument | CrdtTextDocument>(
+  doc: D,
+  index: number,
+  values: unknown[],
+  nextId: () => string
+): D {
+  const visible = sequence(doc);
+  const position = Math.max(0, Math.min(index, visible.length));
+  let after = position === 0 ? null : visible[position - 1][0];
+
+  const items: Record<string, CrdtListItem> = {};
+  for (const value of values) {
+    const id = nextId();
+    items[id] = { after, value };
+    after = id;
+  }
+  return { crdt: doc.crdt, items } as D;
+}
+
+/**
+ * Change to delete `count` values from an index of a list or text document
+ */
+export function deleteChange<D extends CrdtListDocument | CrdtTextDocument>(
+  doc: D,
+  index: number,
+  count: number
+): D {
+  const items: Record<string, CrdtListItem> = {};
+  for (const [id] of sequence(doc).slice(Math.max(0, index), Math.max(0, index) + count)) {
+    items[id] = { ...doc.items[id], deleted: true };
+  }
+  return { crdt: doc.crdt, items } as D;
+}
+
+/**
+ * Change to set or delete (`value` undefined) a key of a map document
+ */
+export function mapChange(key: string, value: unknown, id: string): CrdtMapDocument {
+  const entry: CrdtMapEntry = value === undefined ? { id, deleted: true } : { id, value };
+  return { crdt: 'map', entries: { [key]: entry } };
+}
+
+/**
+ * A document holding initial content, with the same IDs on every server
+ * (Internal - used by CRDT signals)
+ */
+export function initialDocument(kind: CrdtKind, initial: unknown): CrdtDocument {
+  if (kind === 'map') {
+    const entries: Record<string, CrdtMapEntry> = {};
+    for (const [key, value] of Object.entries((initial ?? {}) as Record<string, unknown>)) {
+      entries[key] = { id: `0@${INITIAL_REPLICA}`, value };
+    }
+    return { crdt: 'map', entries };
+  }
+
+  const values = kind === 'text' ? [...((initial ?? '') as string)] : ((initial ?? []) as unknown[]);
+  const doc = emptyDocument(kind) as CrdtListDocument | CrdtTextDocument;
+  let counter = 0;
+  return insertChange(doc, 0, values, () => `${++counter}@${INITIAL_REPLICA}`);
+}
@@ -0,0 +1,271 @@
+/**
+ * Reactive Handler - Framework-agnostic SSE endpoint for reactive components
+ *
+ * Streams React Server Component payloads over SSE whenever a reactive stream
+ * or signal updates. Returns a plain `(request: Request) => Response` function
+ * so it can be mounted in Waku, Hono, or any fetch-based server.
+ *
+ * Connections live in server memory, so control messages must reach the
+ * instance that holds the connection (use sticky sessions behind a load
+ * balancer).
+ *
+ * Quiet connections get periodic heartbeats so proxies don't drop them and
+ * the client can tell a silent stream from a dead one. Clients that stop
+ * reading are disconnected, which releases their runtime subscriptions.
+ */
+
+import type { ReactNode } from 'react';
+import { getComponent, type ComponentResolver } from './components';
+import { ReactiveSession, type SessionOptions } from './session';
+import { isSubscribeRequest, type ControlMessage, type ReactiveFrame } from './protocol';
+
+/**
+ * Options passed to the RSC renderer
+ */
+export interface RenderOptions {
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * RSC renderer, e.g. `renderToReadableStream` from your framework's RSC runtime
+ */
+export type RscRenderer = (
+  model: ReactNode,
+  options?: RenderOptions
+) => ReadableStream<Uint8Array> | Promise<ReadableStream<Uint8Array>>;
+
+export interface ReactiveHandlerOptions {
+  /**
+   * Resolve the component ID carried by a stream token, e.g. with
+   * defineReactiveComponents(). Unknown IDs are rejected with 404.
+   * @default looks up components registered with reactive()
+   */
+  resolveComponent?: ComponentResolver;
+
+  /**
+   * Render a React element to an RSC stream
+   */
+  renderToReadableStream: RscRenderer;
+
+  /**
+   * Resolve the user/session ID of the request that opened a connection.
+   * Tokens issued to a subject are rejected with 403 unless it matches.
+   */
+  getSubject?: (request: Request) => string | undefined | Promise<string | undefined>;
+
+  /**
+   * Derive the request context passed to namespace authorizers from the
+   * request that opened a connection. Renders run with this context active
+   * (see runWithContext).
+   */
+  createContext?: (request: Request) => unknown | Promise<unknown>;
+
+  /**
+   * Called when rendering or streaming fails
+   */
+  onError?: (error: unknown) => void;
+
+  /**
+   * Milliseconds between SSE heartbeats; 0 disables them
+   * @default 15000
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * Milliseconds a client may go without reading SSE frames (or sending
+   * WebSocket messages) before it is disconnected
+   * @default 45000
+   */
+  idleTimeout?: number;
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL = 15_000;
+const DEFAULT_IDLE_TIMEOUT = 45_000;
+
+/**
+ * Encode raw bytes as base64 so RSC chunks survive JSON + SSE framing
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Check the shape of a POSTed control message before acting on it
+ */
+function isControlMessage(value: unknown): value is ControlMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  const { connectionId, subscribe, unsubscribe } = value as ControlMessage;
+  return (
+    typeof connectionId === 'string' &&
+    (subscribe === undefined ||
+      (Array.isArray(subscribe) && subscribe.every(isSubscribeRequest))) &&
+    (unsubscribe === undefined ||
+      (Array.isArray(unsubscribe) && unsubscribe.every((id) => typeof id === 'string')))
+  );
+}
+
+/**
+ * Fill in handler defaults
+ * (Internal - used by createReactiveHandler and createReactiveSocketHandler)
+ */
+export function createSessionOptions(options: ReactiveHandlerOptions): SessionOptions & {
+  heartbeatInterval: number;
+  idleTimeout: number;
+} {
+  return {
+    resolveComponent: options.resolveComponent ?? getComponent,
+    renderToReadableStream: options.renderToReadableStream,
+    getSubject: options.getSubject,
+    createContext: options.createContext,
+    onError:
+      options.onError ?? ((error: unknown) => console.error('[ReactiveHandler] Error:', error)),
+    heartbeatInterval: options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL,
+    idleTimeout: options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT,
+  };
+}
+
+/**
+ * Create an SSE request handler for reactive components
+ *
+ * Mount it for both GET and POST: `GET` opens the page's shared SSE
+ * connection, and `POST` carries subscribe/unsubscribe control messages for
+ * it. All reactive components on a page share one connection; frames are
+ * tagged with the subscription ID they belong to.
+ *
+ * @example
+ * ```typescript
+ * import { createReactiveHandler } from 'kawa';
+ * import { renderToReadableStream } from '@vitejs/plugin-rsc/rsc';
+ *
+ * // Components register themselves when wrapped with reactive()
+ * import './components/clock';
+ *
+ * const handler = createReactiveHandler({ renderToReadableStream });
+ * export const GET = handler;
+ * export const POST = handler;
+ * ```
+ */
+export function createReactiveHandler(
+  options: ReactiveHandlerOptions
+): (request: Request) => Promise<Response> {
+  const sessionOptions = createSessionOptions(options);
+  const { heartbeatInterval, idleTimeout } = sessionOptions;
+
+  // Open connections on this server, by connection ID
+  const connections = new Map<string, ReactiveSession>();
+
+  const openConnection = (request: Request): Response => {
+    const connectionId = crypto.randomUUID();
+    const encoder = new TextEncoder();
+    let session: ReactiveSession | undefined;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    // When the client last had unread frames queued, if it still does
+    let stalledSince: number | undefined;
+
+    // Stop rendering and release all subscriptions once the client is gone
+    const close = () => {
+      if (!session) return;
+      console.log(`[ReactiveHandler] Client disconnected: ${connectionId}`);
+      clearInterval(heartbeat);
+      session.close();
+      session = undefined;
+      connections.delete(connectionId);
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const enqueue = (text: string) => {
+          if (!session) return;
+          try {
+            controller.enqueue(encoder.encode(text));
+          } catch (err) {
+            sessionOptions.onError(err);
+            close();
+          }
+        };
+
+        const write = (frame: ReactiveFrame) => enqueue(`data: ${JSON.stringify(frame)}\n\n`);
+
+        session = new ReactiveSession(request, sessionOptions, {
+          send: write,
+          sendChunk: (id, chunk) => write({ type: 'RSC_CHUNK', id, chunk: toBase64(chunk) }),
+        });
+        connections.set(connectionId, session);
+
+        write({ type: 'connected', connectionId, heartbeatInterval });
+
+        if (heartbeatInterval > 0) {
+          heartbeat = setInterval(() => {
+            // Frames pile up in the queue when the client stopped reading
+            if ((controller.desiredSize ?? 0) < 0) {
+              stalledSince ??= Date.now();
+              if (Date.now() - stalledSince >= idleTimeout) {
+                console.log(`[ReactiveHandler] Client stopped reading: ${connectionId}`);
+                close();
+                controller.error(new Error('Reactive client stopped reading'));
+              }
+              return;
+            }
+            stalledSince = undefined;
+
+            // EventSource hides SSE comments, so heartbeats are a named
+            // event the client can observe without it reaching onmessage
+            enqueue(`event: heartbeat\ndata: ${Date.now()}\n\n`);
+          }, heartbeatInterval);
+        }
+      },
+
+      cancel() {
+        close();
+      },
+    });
+
+    request.signal?.addEventListener('abort', close);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  };
+
+  const handleControl = async (request: Request): Promise<Response> => {
+    let message: unknown;
+    try {
+      message = await request.json();
+    } catch {
+      return new Response('Invalid control message', { status: 400 });
+    }
+
+    if (!isControlMessage(message)) {
+      return new Response('Invalid control message', { status: 400 });
+    }
+
+    const session = connections.get(message.connectionId);
+
+    if (!session) {
+      return new Response(`Unknown connection: ${message.connectionId}`, { status: 404 });
+    }
+
+    message.unsubscribe?.forEach((id) => session.unsubscribe(id));
+
+    // Results are reported on the connection as subscribed / SUBSCRIBE_ERROR frames
+    await Promise.all(
+      (message.subscribe ?? []).map(({ id, token, lastEventId }) =>
+        session.subscribe(id, token, lastEventId)
+      )
+    );
+
+    return new Response(null, { status: 204 });
+  };
+
+  return async (request: Request) => {
+    return request.method === 'POST' ? handleControl(request) : openConnection(request);
+  };
+}
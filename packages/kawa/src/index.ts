@@ -6,15 +6,76 @@
  */
 
 export { signal, computed, isSignal } from './signal';
-export type { Signal, WritableSignal, Cleanup, Listener } from './signal';
+export type {
+  Signal,
+  WritableSignal,
+  SignalOptions,
+  AtomicUpdateOptions,
+  Cleanup,
+  Listener,
+} from './signal';
+export { SignalValidationError } from './schema';
+export type { StandardSchemaV1 } from './schema';
+export type { SignalMigrations, PersistedSignal } from './migrate';
 
 export { namespace, root, signal as keyedSignal } from './namespace';
-export type { Namespace, SignalFamily, NamespaceOptions } from './namespace';
+export type {
+  Namespace,
+  SignalFamily,
+  NamespaceOptions,
+  FamilyOptions,
+  CrdtSignals,
+  NamespaceSnapshot,
+} from './namespace';
+export type { EvictionOptions, EvictionReason } from './signal-cache';
+export type { CrdtList, CrdtMap, CrdtText } from './crdt-signal';
+export type { CrdtDocument, CrdtKind } from './crdt';
+
+export { getSignalById, getSignalKey } from './registry';
+
+export { setGlobalBackend, SignalConflictError } from './backend';
+export type {
+  SignalBackend,
+  BackendEntry,
+  BackendChange,
+  BackendListener,
+  BackendSetOptions,
+} from './backend';
+export { configureBackendWrites, flush } from './write-queue';
+export type { BackendWriteOptions } from './write-queue';
+
+export { SignalAuthorizationError } from './auth';
+export type { Authorizer, SignalOperation, SignalValidator } from './auth';
+export { runWithContext, getRequestContext } from './context';
 
 export { useReactive, useServerState, useReactiveStream } from './use-reactive';
 
+export { reactive } from './reactive-hoc';
+export type { ReactiveComponent, ReactiveOptions } from './reactive-hoc';
+export { registerComponent, getComponent, defineReactiveComponents } from './components';
+export type { ComponentResolver, ComponentEntry, LazyComponentEntry } from './components';
+
 export { reactiveRuntime } from './runtime';
 export type { StreamCallback, StreamFunction, Subscriber } from './runtime';
 
+export { configureStreamTokens, createStreamToken, verifyStreamToken } from './tokens';
+export type { StreamTokenClaims, StreamTokenOptions, SecretProvider } from './tokens';
+
+export { createReactiveHandler } from './handler';
+export type { ReactiveHandlerOptions, RscRenderer, RenderOptions } from './handler';
+export { createMutationHandler } from './mutations';
+export type { MutationHandlerOptions } from './mutations';
+export { createReactiveSocketHandler } from './socket';
+export type { WebSocketLike } from './socket';
+export type {
+  ReactiveFrame,
+  ReactiveTransport,
+  ControlMessage,
+  SubscribeRequest,
+  SocketMessage,
+  SignalPatch,
+  MutationRequest,
+} from './protocol';
+
 // Re-export useful @preact/signals-core utilities
 export { effect, batch, untracked } from '@preact/signals-core';
@@ -0,0 +1,82 @@
+/**
+ * Migrations - Versioned envelopes for persisted signal values
+ *
+ * Backends store `{ __kawa: true, version, value }` instead of the bare
+ * value, so a signal whose shape changed can upgrade what was stored by an
+ * older release. Values written before envelopes existed count as version 0.
+ */
+
+/**
+ * Upgrade functions keyed by the version they upgrade from
+ *
+ * `migrate[1]` turns a version 1 value into a version 2 value, and so on.
+ */
+export type SignalMigrations = Record<number, (old: any) => any | Promise<any>>;
+
+/**
+ * A signal value as stored in a backend
+ */
+export interface PersistedSignal<T = unknown> {
+  __kawa: true;
+  version: number;
+  value: T;
+}
+
+/**
+ * Wrap a value for storage
+ * (Internal - used by backends)
+ */
+export function toPersisted<T>(value: T, version: number): PersistedSignal<T> {
+  return { __kawa: true, version, value };
+}
+
+/**
+ * Unwrap a stored value, treating bare legacy values as version 0
+ * (Internal - used by backends)
+ */
+export function fromPersisted(stored: unknown): { version: number; value: unknown } {
+  if (
+    typeof stored === 'object' &&
+    stored !== null &&
+    (stored as PersistedSignal).__kawa === true &&
+    typeof (stored as PersistedSignal).version === 'number'
+  ) {
+    return { version: (stored as PersistedSignal).version, value: (stored as PersistedSignal).value };
+  }
+
+  return { version: 0, value: stored };
+}
+
+/**
+ * Run the migrations from a stored version up to the current one
+ * (Internal - used by backends)
+ *
+ * @throws if a step is missing or the stored value is from a newer version
+ */
+export async function migrateValue(
+  key: string,
+  value: unknown,
+  fromVersion: number,
+  toVersion: number,
+  migrate: SignalMigrations = {}
+): Promise<unknown> {
+  if (fromVersion > toVersion) {
+    throw new Error(
+      `Stored value of signal ${key} has version ${fromVersion}, newer than ${toVersion}`
+    );
+  }
+
+  let migrated = value;
+
+  for (let version = fromVersion; version < toVersion; version++) {
+    const step = migrate[version];
+
+    if (!step) {
+      throw new Error(`No migration for signal ${key} from version ${version}`);
+    }
+
+    migrated = await step(migrated);
+  }
+
+  return migrated;
+}
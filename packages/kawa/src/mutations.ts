@@ -0,0 +1,183 @@
+/**
+ * Mutation Handler - Client writes to namespaced signals
+ *
+ * Opt-in counterpart to the reactive handler: browsers POST `set`/`update`
+ * patches for signals in namespaces created with `clientWritable: true`.
+ * Every patch is authorized and validated (against the signal's schema and
+ * the namespace's `validate`) before any of them is applied, and the new
+ * values fan out to subscribers through the usual stream path.
+ */
+
+import { batch } from '@preact/signals-core';
+import { getSignalById } from './registry';
+import { isAuthorized, type SignalValidator } from './auth';
+import { runWithContext } from './context';
+import { SignalValidationError, validateValue, type StandardSchemaV1 } from './schema';
+import type { MutationRequest, SignalPatch } from './protocol';
+import type { WritableSignal } from './signal';
+
+export interface MutationHandlerOptions {
+  /**
+   * Derive the request context passed to namespace authorizers and
+   * validators (see runWithContext)
+   */
+  createContext?: (request: Request) => unknown | Promise<unknown>;
+
+  /**
+   * Called when applying a mutation fails unexpectedly
+   */
+  onError?: (error: unknown) => void;
+}
+
+class MutationError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Authorize and validate a patch, staging the value to write
+ *
+ * Staged values of earlier patches in the request are merged into, so
+ * several updates to one signal compose.
+ */
+async function preparePatch(
+  patch: SignalPatch,
+  ctx: unknown,
+  staged: Map<WritableSignal<unknown>, unknown>
+): Promise<void> {
+  if (!patch || typeof patch.key !== 'string' || (patch.op !== 'set' && patch.op !== 'update')) {
+    throw new MutationError(400, 'Invalid mutation');
+  }
+
+  const sig = getSignalById(patch.key);
+
+  if (!sig) {
+    throw new MutationError(404, `Signal not found: ${patch.key}`);
+  }
+
+  if (!(sig as any).__clientWritable) {
+    throw new MutationError(403, `Signal is not client-writable: ${patch.key}`);
+  }
+
+  if (!(await isAuthorized(sig, ctx, 'write'))) {
+    throw new MutationError(403, `Not authorized to write signal: ${patch.key}`);
+  }
+
+  let value = patch.value;
+
+  if (patch.op === 'update') {
+    const current = staged.has(sig) ? staged.get(sig) : sig.value;
+    if (!isPlainObject(current) || !isPlainObject(patch.value)) {
+      throw new MutationError(400, `Cannot merge into a non-object signal: ${patch.key}`);
+    }
+    value = { ...current, ...patch.value };
+  }
+
+  const schema = (sig as any).__schema as StandardSchemaV1 | undefined;
+
+  if (schema) {
+    try {
+      value = await validateValue(schema, value, patch.key);
+    } catch (err) {
+      if (err instanceof SignalValidationError) {
+        throw new MutationError(422, err.message);
+      }
+      throw err;
+    }
+  }
+
+  const validate = (sig as any).__validate as SignalValidator | undefined;
+
+  if (validate) {
+    let valid: boolean;
+    try {
+      valid = await validate(value, patch.key, ctx);
+    } catch (err) {
+      throw new MutationError(422, `Invalid value for ${patch.key}: ${(err as Error).message ?? err}`);
+    }
+    if (!valid) {
+      throw new MutationError(422, `Invalid value for ${patch.key}`);
+    }
+  }
+
+  staged.set(sig, value);
+}
+
+/**
+ * Create a request handler that applies client mutations to signals
+ *
+ * Mount it for POST. Responds `204` once every patch was applied, or with
+ * the status of the first rejected patch (`400`, `403`, `404`, `422`), in
+ * which case nothing is written.
+ *
+ * @example
+ * ```typescript
+ * // pages/api/signals.ts
+ * import { createMutationHandler } from 'kawa';
+ *
+ * // Namespaces must be imported so their signals are registered
+ * import '../../lib/signals/cursors';
+ *
+ * export const POST = createMutationHandler({
+ *   createContext: async (request) => ({ userId: await getUserId(request) }),
+ * });
+ * ```
+ */
+export function createMutationHandler(
+  options: MutationHandlerOptions = {}
+): (request: Request) => Promise<Response> {
+  const onError =
+    options.onError ?? ((error: unknown) => console.error('[MutationHandler] Error:', error));
+
+  return async (request: Request) => {
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { Allow: 'POST' } });
+    }
+
+    let body: MutationRequest;
+    try {
+      body = (await request.json()) as MutationRequest;
+    } catch {
+      return new Response('Invalid mutation request', { status: 400 });
+    }
+
+    if (!Array.isArray(body?.mutations)) {
+      return new Response('Invalid mutation request', { status: 400 });
+    }
+
+    try {
+      const ctx = await options.createContext?.(request);
+
+      // Check everything first so a rejected patch leaves all signals untouched
+      const staged = new Map<WritableSignal<unknown>, unknown>();
+      for (const patch of body.mutations) {
+        await preparePatch(patch, ctx, staged);
+      }
+
+      // Staged values are already validated; set() would run transforming schemas twice
+      runWithContext(ctx, () =>
+        batch(() => staged.forEach((value, sig) => (sig as any).__write(value)))
+      );
+
+      return new Response(null, { status: 204 });
+    } catch (err) {
+      if (err instanceof MutationError) {
+        return new Response(err.message, { status: err.status });
+      }
+      onError(err);
+      return new Response('Mutation failed', { status: 500 });
+    }
+  };
+}
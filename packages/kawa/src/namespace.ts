@@ -7,23 +7,99 @@
  * - Automatic key prefixing: "global:shop:items"
  */
 
-import type { WritableSignal } from './signal';
+import { batch } from '@preact/signals-core';
+import type { Signal, SignalOptions, WritableSignal } from './signal';
 import { signal as createSignal } from './signal';
-import type { ReactiveBackend } from './rivetkit/init';
+import {
+  crdtList,
+  crdtMap,
+  crdtText,
+  replaceChange,
+  type CrdtList,
+  type CrdtMap,
+  type CrdtText,
+} from './crdt-signal';
+import { getGlobalBackend, loadSignal, type SignalBackend } from './backend';
+import { fromPersisted, toPersisted } from './migrate';
+import { documentValue, emptyDocument, isCrdtDocument, type CrdtKind } from './crdt';
+import { isAuthorized, SignalAuthorizationError, type Authorizer, type SignalValidator } from './auth';
+import { getRequestContext } from './context';
+import { validateValue, type StandardSchemaV1 } from './schema';
+import { getSignalById, listSignalKeys, registerSignal, unregisterSignal } from './registry';
+import { forgetRemoteChanges, watchBackend } from './propagation';
+import { flushBackend, syncCrdtChange } from './write-queue';
+import { SignalCache, type EvictionOptions, type EvictionReason } from './signal-cache';
 
 /**
  * Signal family - generates signals dynamically based on parameters
  */
 export type SignalFamily<TParam, TValue> = (param: TParam) => WritableSignal<TValue>;
 
+/**
+ * Constructors for the CRDT signals of a namespace (see crdt-signal.ts)
+ */
+export interface CrdtSignals {
+  list<T>(key: string, initialValue?: T[]): CrdtList<T>;
+  map<T>(key: string, initialValue?: Record<string, T>): CrdtMap<T>;
+  text(key: string, initialValue?: string): CrdtText;
+}
+
+/**
+ * Values of a namespace's signals as a tree of key segments: the value of
+ * `users:alice:pos` is at `children.alice.children.pos.value`
+ */
+export interface NamespaceSnapshot {
+  value?: unknown;
+  // Shape version of `value` (see SignalOptions.version), if not 0
+  version?: number;
+  // Kind of CRDT signal `value` is the plain value of, if any
+  crdt?: CrdtKind;
+  children?: Record<string, NamespaceSnapshot>;
+}
+
+/**
+ * Family options: signal options for every member, plus eviction of
+ * members (defaults to the namespace's eviction options)
+ */
+export interface FamilyOptions<T> extends SignalOptions<T>, EvictionOptions {}
+
 /**
  * Namespace options
+ *
+ * The eviction options (`ttl`, `maxEntries`, `expire`, `onEvict`) bound the
+ * signals created with `signal` and `crdt`. Nested namespaces don't inherit
+ * them; families use them unless given their own.
  */
-export interface NamespaceOptions {
+export interface NamespaceOptions extends EvictionOptions {
   /**
    * Optional backend for persisting signals in this namespace
+   * (defaults to the global backend, see setGlobalBackend)
+   */
+  backend?: SignalBackend;
+
+  /**
+   * Optional access check for reads (SSE subscriptions) and writes (`set`)
+   * of signals in this namespace. Inherited by nested namespaces.
+   *
+   * Synchronous denials make `set` throw a SignalAuthorizationError; with an
+   * async authorizer the write is applied once it resolves, and denied
+   * writes are dropped and logged.
+   */
+  authorize?: Authorizer;
+
+  /**
+   * Allow browsers to write signals in this namespace through the mutation
+   * endpoint (see createMutationHandler). Writes are still authorized and
+   * validated. Inherited by nested namespaces.
+   * @default false
+   */
+  clientWritable?: boolean;
+
+  /**
+   * Check values written by clients before they are applied. Inherited by
+   * nested namespaces.
    */
-  backend?: ReactiveBackend;
+  validate?: SignalValidator;
 }
 
 /**
@@ -38,15 +114,73 @@ export interface Namespace {
   /**
    * Create a signal in this namespace
    */
-  signal<T>(key: string, initialValue: T): WritableSignal<T>;
+  signal<T>(key: string, initialValue: T, options?: SignalOptions<T>): WritableSignal<T>;
 
   /**
    * Create a signal family (parametric signals)
    */
   family<TParam, TValue>(
-    fn: (param: TParam) => { key: string; default: TValue }
+    fn: (param: TParam) => { key: string; default: TValue },
+    options?: FamilyOptions<TValue>
   ): SignalFamily<TParam, TValue>;
 
+  /**
+   * Create collaborative signals whose concurrent edits on different
+   * servers are merged instead of overwriting each other
+   *
+   * Initial values must be the same on every server.
+   */
+  readonly crdt: CrdtSignals;
+
+  /**
+   * Wait until signals in this namespace have loaded their stored values
+   * from the backend. Takes keys relative to the namespace; defaults to
+   * every signal created in it so far.
+   *
+   * @throws if a key doesn't belong to an existing signal
+   */
+  preload(keys?: string[]): Promise<void>;
+
+  /**
+   * Keys of the signals in this namespace (including nested namespaces),
+   * relative to it: the ones created in this process and the ones stored
+   * in the backend
+   */
+  keys(): Promise<string[]>;
+
+  /**
+   * Keys and values of the signals in this namespace, like `keys()`.
+   * Values of signals not created in this process come from the backend.
+   */
+  entries(): Promise<Array<[key: string, value: unknown]>>;
+
+  /**
+   * Serializable tree of every value in this namespace, for `restore`
+   */
+  snapshot(): Promise<NamespaceSnapshot>;
+
+  /**
+   * Write the values of a snapshot: through signals created in this process
+   * (authorized and validated like `set`), and straight to the backend for
+   * the rest. Every value is checked before any is written, so a
+   * SignalAuthorizationError or SignalValidationError leaves the namespace
+   * unchanged. Keys not in the snapshot are left alone; `clear()` first to
+   * replace everything. Resolves once the values reached the backend.
+   */
+  restore(snapshot: NamespaceSnapshot): Promise<void>;
+
+  /**
+   * Delete a signal by key relative to the namespace: its stored value,
+   * and the signal itself, which is detached from the backend. Resolves to
+   * whether there was anything to delete.
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Delete every signal in this namespace (including nested namespaces)
+   */
+  clear(): Promise<void>;
+
   /**
    * Get the full namespace path
    */
@@ -55,72 +189,418 @@ export interface Namespace {
   /**
    * Get the backend for this namespace (if any)
    */
-  readonly backend?: ReactiveBackend;
+  readonly backend?: SignalBackend;
+}
+
+interface CollectedValue {
+  value: unknown;
+  version: number;
+  crdt?: CrdtKind;
 }
 
+// Signals a namespace can hold: writable and CRDT signals
+type AttachedSignal = Signal<any> & { ready: Promise<void> };
+
 /**
  * Internal namespace implementation
  */
 class NamespaceImpl implements Namespace {
-  private signalCache = new Map<string, WritableSignal<any>>();
-  private _backend?: ReactiveBackend;
+  private signalCache: SignalCache<AttachedSignal>;
+  // Every signal created here, including family members
+  private attached = new Set<AttachedSignal>();
+  // Evicted signals by full key, as long as something else still references them
+  private evicted = new Map<string, WeakRef<AttachedSignal>>();
+  private collected = new FinalizationRegistry<string>((fullKey) => {
+    if (!this.evicted.get(fullKey)?.deref()) this.evicted.delete(fullKey);
+  });
+
+  readonly crdt: CrdtSignals = {
+    list: (key, initialValue) => this.cached(key, () => crdtList(initialValue)),
+    map: (key, initialValue) => this.cached(key, () => crdtMap(initialValue)),
+    text: (key, initialValue) => this.cached(key, () => crdtText(initialValue)),
+  };
 
-  constructor(private _path: string, backend?: ReactiveBackend) {
-    this._backend = backend;
+  constructor(
+    private _path: string,
+    private options: NamespaceOptions = {}
+  ) {
+    this.signalCache = new SignalCache(options, (key, sig, reason) =>
+      this.evict(key, sig, reason, options, this.signalCache)
+    );
   }
 
   get path(): string {
     return this._path;
   }
 
-  get backend(): ReactiveBackend | undefined {
-    return this._backend;
+  get backend(): SignalBackend | undefined {
+    return this.options.backend;
   }
 
   namespace(name: string, options?: NamespaceOptions): Namespace {
-    const childBackend = options?.backend || this._backend;
-    return new NamespaceImpl(`${this._path}:${name}`, childBackend);
+    return new NamespaceImpl(`${this._path}:${name}`, {
+      backend: options?.backend || this.options.backend,
+      authorize: options?.authorize || this.options.authorize,
+      clientWritable: options?.clientWritable ?? this.options.clientWritable,
+      validate: options?.validate || this.options.validate,
+    });
   }
 
-  signal<T>(key: string, initialValue: T): WritableSignal<T> {
-    const fullKey = this._path ? `${this._path}:${key}` : key;
+  // Namespaces without their own backend use the global one, if initialized by now
+  private resolveBackend(): SignalBackend | undefined {
+    return this.options.backend ?? getGlobalBackend() ?? undefined;
+  }
+
+  private fullKey(key: string): string {
+    return this._path ? `${this._path}:${key}` : key;
+  }
+
+  /**
+   * Store the key and namespace settings on a signal and register it
+   */
+  private attach(fullKey: string, sig: AttachedSignal, cache: SignalCache<any>): void {
+    const backend = this.resolveBackend();
+
+    (sig as any).__key = fullKey;
+    (sig as any).__backend = backend;
+    (sig as any).__authorize = this.options.authorize;
+    // CRDT signals are only edited through their methods, never replaced by clients
+    (sig as any).__clientWritable = !(sig as any).__crdt && (this.options.clientWritable ?? false);
+    (sig as any).__validate = this.options.validate;
+    // Reads, subscriptions and writes keep the signal from being evicted too
+    (sig as any).__touch = () => cache.touch(fullKey, sig);
+    registerSignal(fullKey, sig as WritableSignal<any>);
+    this.attached.add(sig);
+
+    // Drop the signal and stop syncing it, so stale references can't bring
+    // a deleted key back (Internal - used by `delete`)
+    (sig as any).__remove = () => {
+      cache.delete(fullKey);
+      this.release(fullKey, sig);
+      (sig as any).__backend = undefined;
+    };
+
+    // Start from the stored value, loaded in the background (see `ready`)
+    // and follow changes other servers make to it
+    if (backend) {
+      (sig as any).__hydrate(() => loadSignal(fullKey, backend, (sig as any).__options));
+      watchBackend(backend, this._path ? `${this._path}:*` : '*');
+    }
+  }
+
+  signal<T>(key: string, initialValue: T, options?: SignalOptions<T>): WritableSignal<T> {
+    return this.cached(key, () => createSignal(initialValue, options));
+  }
+
+  private release(fullKey: string, sig: AttachedSignal): void {
+    unregisterSignal(fullKey, sig);
+    forgetRemoteChanges(fullKey);
+    this.attached.delete(sig);
+  }
+
+  /**
+   * Forget an evicted signal, deleting its stored value if it expired and
+   * the options ask for it
+   *
+   * The signal stops syncing until it is used again: a lookup, read or
+   * write through a reference kept elsewhere attaches it again (see
+   * `revive`), so writes to it are never lost.
+   */
+  private evict(
+    fullKey: string,
+    sig: AttachedSignal,
+    reason: EvictionReason,
+    options: EvictionOptions,
+    cache: SignalCache<any>
+  ): void {
+    // Read before detaching
+    const backend = (sig as any).__backend as SignalBackend | undefined;
+    this.release(fullKey, sig);
+    (sig as any).__backend = undefined;
+
+    this.evicted.set(fullKey, new WeakRef(sig));
+    this.collected.register(sig, fullKey);
+    (sig as any).__touch = (write: boolean) => this.revive(fullKey, sig, cache, write);
+
+    if (reason === 'expired' && options.expire && backend) {
+      // Queued writes go first so they can't bring the key back
+      flushBackend(backend)
+        .then(() => backend.delete(fullKey))
+        .catch((error) => console.error(`[reactive-rsc] Failed to expire signal ${fullKey}:`, error));
+    }
+
+    options.onEvict?.(fullKey, reason);
+  }
+
+  /**
+   * Attach an evicted signal again, unless another signal took its key
+   */
+  private revive(
+    fullKey: string,
+    sig: AttachedSignal,
+    cache: SignalCache<any>,
+    write = false
+  ): boolean {
+    if (this.evicted.get(fullKey)?.deref() !== sig) return false;
+
+    if (getSignalById(fullKey)) {
+      if (write) {
+        console.warn(
+          `[reactive-rsc] Signal ${fullKey} was evicted and created again; writes to the evicted one aren't synced`
+        );
+      }
+      return false;
+    }
+
+    this.evicted.delete(fullKey);
+    this.attach(fullKey, sig, cache);
+    cache.set(fullKey, sig);
+    return true;
+  }
+
+  /**
+   * Return the signal cached under a key, or create and attach it
+   */
+  private cached<S extends AttachedSignal>(key: string, create: () => S): S {
+    const fullKey = this.fullKey(key);
 
     // Return cached signal if exists
-    if (this.signalCache.has(fullKey)) {
-      return this.signalCache.get(fullKey)!;
+    const cached = this.signalCache.get(fullKey);
+    if (cached) {
+      return cached as S;
+    }
+
+    // Evicted but still referenced elsewhere: keep using that one
+    const evicted = this.evicted.get(fullKey)?.deref();
+    if (evicted && this.revive(fullKey, evicted, this.signalCache)) {
+      return evicted as S;
     }
 
     // Create new signal
-    const sig = createSignal(initialValue);
+    const sig = create();
 
-    // Store the key and backend on the signal for backend integration
-    (sig as any).__key = fullKey;
-    (sig as any).__backend = this._backend;
+    // Store the key, backend and authorizer on the signal for backend integration
+    this.attach(fullKey, sig, this.signalCache);
 
     this.signalCache.set(fullKey, sig);
     return sig;
   }
 
   family<TParam, TValue>(
-    fn: (param: TParam) => { key: string; default: TValue }
+    fn: (param: TParam) => { key: string; default: TValue },
+    options: FamilyOptions<TValue> = {}
   ): SignalFamily<TParam, TValue> {
-    const familyCache = new Map<string, WritableSignal<TValue>>();
-    const backend = this._backend;
+    const { ttl, maxEntries, expire, onEvict, ...signalOptions } = options;
+    const eviction: EvictionOptions = {
+      ttl: ttl ?? this.options.ttl,
+      maxEntries: maxEntries ?? this.options.maxEntries,
+      expire: expire ?? this.options.expire,
+      onEvict: onEvict ?? this.options.onEvict,
+    };
+    const familyCache: SignalCache<WritableSignal<TValue>> = new SignalCache(
+      eviction,
+      (key, sig, reason) => this.evict(key, sig, reason, eviction, familyCache)
+    );
 
     return (param: TParam) => {
       const { key, default: defaultValue } = fn(param);
-      const fullKey = this._path ? `${this._path}:${key}` : key;
+      const fullKey = this.fullKey(key);
+
+      let sig = familyCache.get(fullKey);
 
-      if (!familyCache.has(fullKey)) {
-        const sig = createSignal(defaultValue);
-        (sig as any).__key = fullKey;
-        (sig as any).__backend = backend;
+      // Evicted but still referenced elsewhere: keep using that one
+      const evicted = sig ? undefined : this.evicted.get(fullKey)?.deref();
+      if (evicted && this.revive(fullKey, evicted, familyCache)) {
+        sig = evicted as WritableSignal<TValue>;
+      }
+
+      if (!sig) {
+        sig = createSignal(defaultValue, signalOptions);
+        this.attach(fullKey, sig, familyCache);
         familyCache.set(fullKey, sig);
       }
 
-      return familyCache.get(fullKey)!;
+      return sig;
     };
   }
+
+  async preload(keys?: string[]): Promise<void> {
+    const signals = keys
+      ? keys.map((key) => {
+          const fullKey = this.fullKey(key);
+          const sig = getSignalById(fullKey);
+          if (!sig) {
+            throw new Error(`Signal not found: ${fullKey}`);
+          }
+          return sig;
+        })
+      : [...this.attached];
+
+    await Promise.all(signals.map((sig) => sig.ready));
+  }
+
+  /**
+   * Every value in the namespace by full key, with its shape version and
+   * CRDT kind
+   */
+  private async collect(): Promise<Map<string, CollectedValue>> {
+    const prefix = this._path ? `${this._path}:` : '';
+    const backend = this.resolveBackend();
+    const values = new Map<string, CollectedValue>();
+
+    for (const entry of backend ? await backend.list(prefix) : []) {
+      const { value, version } = fromPersisted(entry.value);
+      values.set(
+        entry.key,
+        isCrdtDocument(value)
+          ? { value: documentValue(value), version, crdt: value.crdt }
+          : { value, version }
+      );
+    }
+
+    // Signals in this process have the latest values
+    for (const key of listSignalKeys(prefix)) {
+      const sig = getSignalById(key)!;
+      values.set(key, {
+        value: sig.value,
+        version: (sig as any).__options?.version ?? 0,
+        crdt: (sig as any).__crdt,
+      });
+    }
+
+    return new Map([...values].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+  }
+
+  async keys(): Promise<string[]> {
+    return (await this.entries()).map(([key]) => key);
+  }
+
+  async entries(): Promise<Array<[key: string, value: unknown]>> {
+    const start = this._path ? this._path.length + 1 : 0;
+    return [...(await this.collect())].map(([key, { value }]) => [key.slice(start), value]);
+  }
+
+  async snapshot(): Promise<NamespaceSnapshot> {
+    const start = this._path ? this._path.length + 1 : 0;
+    const tree: NamespaceSnapshot = {};
+
+    for (const [key, { value, version, crdt }] of await this.collect()) {
+      let node = tree;
+      for (const segment of key.slice(start).split(':')) {
+        node.children ??= {};
+        node = node.children[segment] ??= {};
+      }
+      node.value = value;
+      if (version !== 0) node.version = version;
+      if (crdt) node.crdt = crdt;
+    }
+
+    return tree;
+  }
+
+  async restore(snapshot: NamespaceSnapshot): Promise<void> {
+    const backend = this.resolveBackend();
+    const nodes: Array<[fullKey: string, node: NamespaceSnapshot]> = [];
+
+    const visit = (node: NamespaceSnapshot, key: string) => {
+      if (key && 'value' in node) {
+        nodes.push([this.fullKey(key), node]);
+      }
+
+      for (const [segment, child] of Object.entries(node.children ?? {})) {
+        visit(child, key ? `${key}:${segment}` : segment);
+      }
+    };
+    visit(snapshot, '');
+
+    // Check every value before writing any, so a rejected one leaves nothing half restored
+    const ctx = getRequestContext();
+    const staged = new Map<string, unknown>();
+
+    for (const [fullKey, node] of nodes) {
+      const sig = getSignalById(fullKey);
+      if (!sig) continue;
+
+      if (!(await isAuthorized(sig, ctx, 'write'))) {
+        throw new SignalAuthorizationError(fullKey, 'write');
+      }
+
+      const schema = (sig as any).__schema as StandardSchemaV1 | undefined;
+      staged.set(fullKey, schema ? await validateValue(schema, node.value, fullKey) : node.value);
+    }
+
+    const writes: Promise<unknown>[] = [];
+
+    batch(() => {
+      for (const [fullKey, node] of nodes) {
+        const sig = getSignalById(fullKey);
+
+        // Already checked above; set() would authorize and validate again, maybe asynchronously
+        if (sig && staged.has(fullKey)) {
+          const value = staged.get(fullKey);
+          if ((sig as any).__crdt) {
+            (sig as any).__replace(value);
+          } else {
+            (sig as any).__write(value);
+          }
+        } else if (backend && node.crdt) {
+          writes.push(this.restoreDocument(backend, fullKey, node.crdt, node.value));
+        } else if (backend) {
+          writes.push(backend.set(fullKey, toPersisted(node.value, node.version ?? 0)));
+        }
+      }
+    });
+
+    await Promise.all(writes);
+    if (backend) {
+      await flushBackend(backend);
+    }
+  }
+
+  /**
+   * Edit the stored document of a CRDT signal to hold a restored value; the
+   * edit merges with concurrent ones like any other
+   */
+  private async restoreDocument(
+    backend: SignalBackend,
+    fullKey: string,
+    kind: CrdtKind,
+    value: unknown
+  ): Promise<void> {
+    const entry = await backend.get(fullKey);
+    const stored = entry && fromPersisted(entry.value).value;
+    const doc = isCrdtDocument(stored) && stored.crdt === kind ? stored : emptyDocument(kind);
+    syncCrdtChange(fullKey, replaceChange(doc, value), backend);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const fullKey = this.fullKey(key);
+    const sig = getSignalById(fullKey);
+    // Read before `__remove` detaches it
+    const backend = ((sig as any)?.__backend as SignalBackend | undefined) ?? this.resolveBackend();
+
+    (sig as any)?.__remove?.();
+
+    // An evicted signal must not come back either
+    const evicted = this.evicted.get(fullKey)?.deref();
+    this.evicted.delete(fullKey);
+    if (evicted) {
+      (evicted as any).__touch = undefined;
+    }
+
+    if (!backend) {
+      return !!sig;
+    }
+
+    // Queued writes go first so they can't bring the key back
+    await flushBackend(backend);
+    return (await backend.delete(fullKey)) || !!sig;
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.keys();
+    await Promise.all(keys.map((key) => this.delete(key)));
+  }
 }
 
 /**
@@ -142,10 +622,43 @@ class NamespaceImpl implements Namespace {
  *   global: false
  * });
  * const users = namespace("users", { backend: userBackend });
+ *
+ * // Signals load their stored values in the background
+ * const profile = users.signal("profile", {});
+ * await users.preload(["profile"]); // or: await profile.ready
+ * ```
+ *
+ * @example With authorization
+ * ```typescript
+ * const users = namespace("users", {
+ *   authorize: (ctx, key, op) => key.startsWith(`users:${ctx?.userId}:`),
+ * });
+ * ```
+ *
+ * @example Collaborative signals
+ * ```typescript
+ * const board = namespace("board");
+ * const cards = board.crdt.list<string>("cards");
+ *
+ * cards.push("Write docs"); // merged with other servers' edits
+ * cards.value;              // ["Write docs"]
+ * ```
+ *
+ * @example Bounded
+ * ```typescript
+ * const sessions = namespace("sessions", { ttl: 30 * 60_000, expire: true });
+ * ```
+ *
+ * @example Writable from the browser
+ * ```typescript
+ * const cursors = namespace("cursors", {
+ *   clientWritable: true,
+ *   validate: (value) => typeof value?.x === 'number' && typeof value?.y === 'number',
+ * });
  * ```
  */
 export function namespace(name: string, options?: NamespaceOptions): Namespace {
-  return new NamespaceImpl(name, options?.backend);
+  return new NamespaceImpl(name, options);
 }
 
 /**
@@ -156,6 +669,6 @@ export const root = new NamespaceImpl('');
 /**
  * Create a signal without namespace (shorthand)
  */
-export function signal<T>(key: string, initialValue: T): WritableSignal<T> {
-  return root.signal(key, initialValue);
+export function signal<T>(key: string, initialValue: T, options?: SignalOptions<T>): WritableSignal<T> {
+  return root.signal(key, initialValue, options);
 }
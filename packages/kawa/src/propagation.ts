@@ -0,0 +1,98 @@
+/**
+ * Cross-server propagation - Apply signal writes made by other processes
+ *
+ * Every kawa process subscribes to the key patterns of its namespaces on
+ * their backends. Values written by other servers are applied to local
+ * signals, and from there reach this process's subscribers, without being
+ * synced back to the backend. Changes to CRDT signals are merged into
+ * their documents instead, and deleted keys reset their signals to the
+ * initial value.
+ */
+
+import type { BackendChange, SignalBackend } from './backend';
+import { decodeStoredSignal } from './backend';
+import { fromPersisted } from './migrate';
+import { hasPendingWrite } from './write-queue';
+import { getSignalById } from './registry';
+
+// Key patterns subscribed to per backend
+const watched = new WeakMap<SignalBackend, Set<string>>();
+
+// Last revision seen per key
+const lastSeen = new Map<string, number>();
+
+function applyRemoteChange(
+  backend: SignalBackend,
+  { key, value: stored, version, deleted }: BackendChange
+): void {
+  const sig = getSignalById(key);
+
+  // Only signals this process created, on the backend that changed
+  if (!sig || (sig as any).__backend !== backend) return;
+
+  if (deleted) {
+    // A write of ours queued meanwhile re-creates the key
+    if (hasPendingWrite(backend, key)) return;
+
+    // Stale values would otherwise be written back by the next update();
+    // a re-created key may start its revisions over
+    lastSeen.delete(key);
+    (sig as any).__reset();
+    return;
+  }
+
+  // CRDT documents and changes merge in any order, even over our own writes
+  if ((sig as any).__crdt) {
+    (sig as any).__merge(fromPersisted(stored).value);
+    return;
+  }
+
+  // Our own write is still in flight; the change after it lands is the one to trust
+  if (hasPendingWrite(backend, key)) return;
+
+  if ((lastSeen.get(key) ?? 0) >= version) return;
+  lastSeen.set(key, version);
+
+  decodeStoredSignal(key, stored, (sig as any).__options).then(
+    ({ value }) => {
+      // Echo of a value this process wrote
+      if (JSON.stringify(value) === JSON.stringify(sig.value)) return;
+      (sig as any).__receive(value);
+    },
+    (error) => console.error(`[reactive-rsc] Ignoring remote value of signal ${key}:`, error)
+  );
+}
+
+/**
+ * Start applying changes made by other servers to signals matching a key
+ * pattern (e.g. `users:*`) on a backend
+ * (Internal - called by namespaces for every signal bound to a backend)
+ *
+ * Subscribes once per pattern; failures are retried the next time a signal
+ * on the backend is created.
+ */
+export function watchBackend(backend: SignalBackend, pattern: string): void {
+  let subscribed = watched.get(backend);
+  if (!subscribed) {
+    subscribed = new Set();
+    watched.set(backend, subscribed);
+  }
+
+  if (subscribed.has(pattern)) return;
+  subscribed.add(pattern);
+
+  backend
+    .subscribe(pattern, (change) => applyRemoteChange(backend, change))
+    .catch((error) => {
+      subscribed.delete(pattern);
+      console.error(`[reactive-rsc] Failed to listen for changes to ${pattern}:`, error);
+    });
+}
+
+/**
+ * Forget the revisions seen for a key
+ * (Internal - used by namespaces when evicting signals)
+ */
+export function forgetRemoteChanges(key: string): void {
+  lastSeen.delete(key);
+}
@@ -0,0 +1,129 @@
+/**
+ * Reactive Protocol - Messages exchanged between <Reactive> and the handler
+ *
+ * A page opens one connection per endpoint. Every <Reactive> instance on the
+ * page adds a subscription to it, identified by a client-chosen ID that is
+ * echoed in every frame for that subscription.
+ *
+ * Each rendered payload carries the event ID of the update it renders. A
+ * client that reconnects re-subscribes with the last event ID it received and
+ * only gets what it missed (nothing if it is up to date).
+ *
+ * Two transports carry the same frames:
+ * - SSE: frames are JSON `data:` events, RSC chunks are base64-encoded and
+ *   control messages are POSTed to the endpoint
+ * - WebSocket: frames are JSON text messages, RSC chunks are binary messages
+ *   and control messages are sent on the socket
+ */
+
+/**
+ * Transport used by <Reactive> to reach the endpoint
+ */
+export type ReactiveTransport = 'sse' | 'websocket';
+
+/**
+ * Frames sent from the server to the client
+ */
+export type ReactiveFrame =
+  | { type: 'connected'; connectionId: string; heartbeatInterval?: number }
+  | { type: 'subscribed'; id: string }
+  | { type: 'SUBSCRIBE_ERROR'; id: string; status: number; error: string }
+  | { type: 'RSC_START'; id: string; eventId: string }
+  | { type: 'RSC_CHUNK'; id: string; chunk: string }
+  | { type: 'RSC_END'; id: string; eventId: string }
+  | { type: 'RSC_ERROR'; id: string; error: string }
+  | { type: 'unsubscribed'; id: string }
+  | { type: 'pong' };
+
+/**
+ * Subscribe to a stream or signal with a signed stream token
+ */
+export interface SubscribeRequest {
+  id: string;
+  token: string;
+  /**
+   * Event ID of the last payload received, to resume after a reconnect
+   */
+  lastEventId?: string;
+}
+
+/**
+ * Whether a value received from a client is a well-formed subscribe request
+ * (Internal - used by the handlers)
+ */
+export function isSubscribeRequest(value: unknown): value is SubscribeRequest {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, token, lastEventId } = value as SubscribeRequest;
+  return (
+    typeof id === 'string' &&
+    typeof token === 'string' &&
+    (lastEventId === undefined || typeof lastEventId === 'string')
+  );
+}
+
+/**
+ * Control message sent from the client to the server (POST body for SSE)
+ */
+export interface ControlMessage {
+  connectionId: string;
+  subscribe?: SubscribeRequest[];
+  unsubscribe?: string[];
+}
+
+/**
+ * Message sent from the client to the server over a WebSocket
+ */
+export type SocketMessage =
+  | ({ type: 'subscribe' } & SubscribeRequest)
+  | { type: 'unsubscribe'; id: string }
+  | { type: 'ping' };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Encode an RSC chunk as a binary WebSocket message
+ *
+ * Layout: 1 byte subscription ID length, the UTF-8 ID, then the raw chunk.
+ */
+export function encodeChunkFrame(id: string, chunk: Uint8Array): Uint8Array {
+  const idBytes = encoder.encode(id);
+
+  if (idBytes.length > 255) {
+    throw new Error(`Subscription ID too long: ${id}`);
+  }
+
+  const frame = new Uint8Array(1 + idBytes.length + chunk.length);
+  frame[0] = idBytes.length;
+  frame.set(idBytes, 1);
+  frame.set(chunk, 1 + idBytes.length);
+  return frame;
+}
+
+/**
+ * Decode a binary WebSocket message into its subscription ID and RSC chunk
+ */
+export function decodeChunkFrame(frame: Uint8Array): { id: string; chunk: Uint8Array } {
+  const idLength = frame[0];
+  return {
+    id: decoder.decode(frame.subarray(1, 1 + idLength)),
+    chunk: frame.subarray(1 + idLength),
+  };
+}
+
+/**
+ * A write to a client-writable signal
+ *
+ * - `set` replaces the value
+ * - `update` shallow-merges an object into the current (object) value
+ */
+export type SignalPatch =
+  | { op: 'set'; key: string; value: unknown }
+  | { op: 'update'; key: string; value: Record<string, unknown> };
+
+/**
+ * Body of a request to the mutation endpoint; patches are applied all or nothing
+ */
+export interface MutationRequest {
+  mutations: SignalPatch[];
+}
@@ -0,0 +1,189 @@
+/**
+ * reactive - HOC (Higher-Order Component) for reactive server components
+ *
+ * Automatically wraps a server component with the <Reactive> client boundary.
+ * This eliminates the need to manually wrap components at usage sites.
+ *
+ * Usage:
+ * ```tsx
+ * // Define your reactive component
+ * function ClockBase({ interval = 1000 }) {
+ *   const time = useReactive(...)
+ *   return <div>{time}</div>
+ * }
+ *
+ * // Wrap it with reactive() HOC
+ * export default reactive(ClockBase)
+ * ```
+ *
+ * Now you can use it without the <Reactive> wrapper:
+ * ```tsx
+ * import Clock from './components/clock'
+ * <Clock interval={1000} />  // No wrapper needed!
+ * ```
+ */
+
+import { use, type ReactNode } from 'react';
+import { Reactive } from 'kawa/client';
+import { runInReactiveScope, type ReactiveScope } from './use-reactive';
+import { forwardComponentProps, registerComponent } from './components';
+import { createStreamToken } from './tokens';
+import type { ReactiveTransport } from './protocol';
+
+/**
+ * Server component that can be wrapped with reactive()
+ */
+export type ReactiveComponent<P> = (props: P & { _reactiveData?: any }) => ReactNode;
+
+export interface ReactiveOptions {
+  /**
+   * Stable component ID the endpoint resolves when re-rendering
+   *
+   * Set it explicitly if your server build minifies function names or two
+   * components share a name.
+   * @default the component's displayName or function name
+   */
+  id?: string;
+
+  /**
+   * URL of the reactive endpoint
+   * @default '/api/reactive'
+   */
+  endpoint?: string;
+
+  /**
+   * Transport used to reach the endpoint
+   * @default 'sse'
+   */
+  transport?: ReactiveTransport;
+
+  /**
+   * Shown while connecting when there is no server-rendered content
+   */
+  fallback?: ReactNode;
+
+  /**
+   * Shown instead of the component when the stream reports an error
+   */
+  errorFallback?: ReactNode;
+}
+
+/**
+ * Renders a component once the signals it waits for have loaded
+ *
+ * Suspends with use() so React calls `render` again while it is rendering;
+ * calling the component after an await would run its hooks outside React.
+ */
+function Loaded({ ready, render }: { ready: Promise<unknown>; render: () => ReactNode }) {
+  use(ready);
+  return render();
+}
+
+/**
+ * Call a component with a reactive scope active, rendering it again once
+ * the signals it waits for have loaded
+ * (Internal - used by reactive() and reactive sessions)
+ *
+ * `scope` collects what the first call subscribes to.
+ */
+export function renderInScope(
+  Component: ReactiveComponent<any>,
+  props: Record<string, unknown>,
+  scope: ReactiveScope
+): ReactNode {
+  const rendered = runInReactiveScope(scope, () => Component(props));
+  if (!scope.pending) return rendered;
+
+  const render = () => renderInScope(Component, props, { propsKey: scope.propsKey });
+  return <Loaded ready={Promise.all(scope.pending)} render={render} />;
+}
+
+// Wrapper -> wrapped component, so the endpoint re-renders without the boundary
+const wrappedComponents = new WeakMap<Function, ReactiveComponent<any>>();
+
+/**
+ * Wrap a server component to make it reactive
+ *
+ * Registers the component under a stable ID and renders it once on the
+ * server to discover the stream or signal it subscribes to, then wraps the
+ * result in <Reactive> with a signed stream token so the client keeps it up
+ * to date. Props are signed into the token and passed again on every
+ * re-render, so they must be JSON-serializable.
+ *
+ * @example
+ * ```tsx
+ * const Clock = reactive(function Clock({ interval }) {
+ *   const time = useReactive(Date.now(), stream => {
+ *     const id = setInterval(() => stream.next(Date.now()), interval)
+ *     return () => clearInterval(id)
+ *   }, [interval])
+ *   return <div>{new Date(time).toLocaleTimeString()}</div>
+ * })
+ *
+ * export default Clock
+ * ```
+ */
+export function reactive<P extends Record<string, any>>(
+  Component: ReactiveComponent<P>,
+  options: ReactiveOptions = {}
+): (props: P) => Promise<ReactNode> {
+  // Preserve component name for debugging
+  const componentName =
+    (Component as { displayName?: string }).displayName || Component.name || 'ReactiveComponent';
+  const id = options.id || (componentName !== 'ReactiveComponent' ? componentName : undefined);
+
+  if (!id) {
+    throw new Error('reactive() requires an `id` option for anonymous components');
+  }
+
+  registerComponent(id, Component);
+
+  const ReactiveWrapper = async (props: P) => {
+    // Validate props up front so re-renders can reuse them
+    const { propsKey, props: forwarded } = forwardComponentProps(id, props);
+
+    // Render synchronously first, while React's hooks are available, to find
+    // what the component subscribes to
+    const scope: ReactiveScope = { propsKey };
+    const rendered = renderInScope(Component, props, scope);
+
+    if (!scope.streamKey && !scope.signalId) {
+      // Component didn't subscribe to anything - nothing to stream
+      return rendered;
+    }
+
+    // Sign exactly what this instance may subscribe to
+    const token = await createStreamToken({
+      componentId: id,
+      props: forwarded,
+      ...(scope.streamKey && { streamKey: scope.streamKey }),
+      ...(scope.signalId && { signalId: scope.signalId }),
+    });
+
+    return (
+      <Reactive
+        token={token}
+        endpoint={options.endpoint}
+        transport={options.transport}
+        fallback={options.fallback}
+        errorFallback={options.errorFallback}
+      >
+        {rendered}
+      </Reactive>
+    );
+  };
+
+  ReactiveWrapper.displayName = `Reactive(${componentName})`;
+
+  wrappedComponents.set(ReactiveWrapper, Component);
+
+  return ReactiveWrapper;
+}
+
+/**
+ * Get the component wrapped by reactive(), or the component itself
+ * (Internal - used by the reactive handler)
+ */
+export function unwrapReactive<T extends Function>(Component: T): T | ReactiveComponent<any> {
+  return wrappedComponents.get(Component) ?? Component;
+}
@@ -0,0 +1,59 @@
+/**
+ * Signal Registry - Server-side lookup of keyed signals
+ *
+ * Every signal created through a namespace is registered under its full key
+ * (the same `__key` used for backend persistence), so transports can resolve
+ * a signal from the ID a client subscribes with.
+ */
+
+import type { Signal, WritableSignal } from './signal';
+
+const signalRegistry = new Map<string, WritableSignal<any>>();
+
+/**
+ * Register a keyed signal
+ * (Internal - used by namespace implementation)
+ */
+export function registerSignal<T>(key: string, sig: WritableSignal<T>): void {
+  signalRegistry.set(key, sig);
+}
+
+/**
+ * Remove a keyed signal, unless the key was registered again since
+ * (Internal - used by namespaces when evicting signals)
+ */
+export function unregisterSignal(key: string, sig: Signal<any>): void {
+  if (signalRegistry.get(key) === sig) {
+    signalRegistry.delete(key);
+  }
+}
+
+/**
+ * Keys of registered signals starting with a prefix
+ * (Internal - used by namespace introspection)
+ */
+export function listSignalKeys(prefix: string): string[] {
+  return [...signalRegistry.keys()].filter((key) => key.startsWith(prefix));
+}
+
+/**
+ * Look up a registered signal by its full key
+ *
+ * @example
+ * ```typescript
+ * const users = namespace("users");
+ * users.signal("alice:position", { x: 0, y: 0 });
+ *
+ * getSignalById("users:alice:position"); // → the same signal
+ * ```
+ */
+export function getSignalById<T = any>(id: string): WritableSignal<T> | undefined {
+  return signalRegistry.get(id);
+}
+
+/**
+ * Get the registry key of a signal, if it was created through a namespace
+ */
+export function getSignalKey(sig: Signal<any>): string | undefined {
+  return (sig as any).__key;
+}
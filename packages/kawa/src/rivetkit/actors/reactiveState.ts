@@ -1,4 +1,73 @@
 import { actor } from 'rivetkit';
+import { matchesKeyPattern } from '../../backend';
+import { isCrdtDocument, mergeDocuments, type CrdtDocument } from '../../crdt';
+
+/**
+ * Change event sent to connections subscribed to a matching key pattern
+ */
+export interface SignalChangedEvent {
+  key: string;
+  value: any;
+  // Revision of the key, incremented on every write
+  version: number;
+}
+
+/**
+ * Sent instead of `signalChanged` when a key is deleted
+ */
+export interface SignalDeletedEvent {
+  key: string;
+  version: number;
+}
+
+/**
+ * Sent instead of `signalChanged` when a CRDT change was merged into a key:
+ * carries only the change, to be merged into the receiver's document
+ */
+export interface SignalMergedEvent {
+  key: string;
+  change: CrdtDocument;
+  version: number;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+// The parts of the action context signal writes use
+interface SignalContext {
+  state: { signals: Record<string, any>; revisions: Record<string, number> };
+  conns: Map<
+    string,
+    { state: { patterns: string[] }; send(name: string, ...args: unknown[]): void }
+  >;
+}
+
+/**
+ * Send an event to connections subscribed to a pattern matching the key
+ */
+function notify(
+  c: SignalContext,
+  key: string,
+  name: 'signalChanged' | 'signalDeleted' | 'signalMerged',
+  event: SignalChangedEvent | SignalDeletedEvent | SignalMergedEvent
+) {
+  for (const conn of c.conns.values()) {
+    if (conn.state.patterns.some((pattern) => matchesKeyPattern(key, pattern))) {
+      conn.send(name, event);
+    }
+  }
+}
+
+/**
+ * Store a value, bump its revision and notify subscribers
+ */
+function writeSignal(c: SignalContext, key: string, value: any): number {
+  const version = (c.state.revisions[key] ?? 0) + 1;
+  c.state.signals[key] = value;
+  c.state.revisions[key] = version;
+  notify(c, key, 'signalChanged', { key, value, version });
+  return version;
+}
 
 /**
  * Reactive State Actor
@@ -6,25 +75,47 @@ import { actor } from 'rivetkit';
  * Stores reactive signals and streams with automatic broadcasting.
  * This actor provides persistent, multi-user reactive state for
  * reactive-rsc server components.
+ *
+ * Writes are announced per key: connections subscribe to key patterns with
+ * `subscribeSignals` and receive `signalChanged` / `signalDeleted` /
+ * `signalMerged` events for matching keys only.
  */
 export const reactiveStateActor = actor({
   state: {
     // Signal storage: key -> value
     signals: {} as Record<string, any>,
 
+    // Signal revisions: key -> number of writes
+    revisions: {} as Record<string, number>,
+
     // Stream metadata: key -> current value
     streams: {} as Record<string, any>,
   },
 
-  onStateChange: (c, newState) => {
-    // Broadcast all state changes to connected clients
-    c.broadcast('stateChanged', {
-      signals: newState.signals,
-      streams: newState.streams,
-    });
+  // Key patterns each connection subscribed to
+  connState: {
+    patterns: [] as string[],
   },
 
   actions: {
+    /**
+     * Receive change events for keys matching a pattern (e.g. `users:alice:*`)
+     */
+    subscribeSignals: (c, { pattern }: { pattern: string }) => {
+      if (!c.conn.state.patterns.includes(pattern)) {
+        c.conn.state.patterns = [...c.conn.state.patterns, pattern];
+      }
+      return { success: true, pattern };
+    },
+
+    /**
+     * Stop receiving change events for a pattern
+     */
+    unsubscribeSignals: (c, { pattern }: { pattern: string }) => {
+      c.conn.state.patterns = c.conn.state.patterns.filter((p) => p !== pattern);
+      return { success: true, pattern };
+    },
+
     /**
      * Get a signal value by key
      */
@@ -32,15 +123,58 @@ export const reactiveStateActor = actor({
       return {
         value: c.state.signals[key],
         exists: key in c.state.signals,
+        version: c.state.revisions[key] ?? 0,
       };
     },
 
     /**
      * Set a signal value
+     *
+     * With `expectedVersion`, only writes if the key is at that revision
+     * (`0`: the key doesn't exist) and otherwise returns `conflict: true`
+     * with the current revision.
      */
-    setSignal: (c, { key, value }: { key: string; value: any }) => {
-      c.state.signals[key] = value;
-      return { success: true, key, value };
+    setSignal: (
+      c,
+      { key, value, expectedVersion }: { key: string; value: any; expectedVersion?: number }
+    ) => {
+      if (expectedVersion !== undefined) {
+        const current = key in c.state.signals ? (c.state.revisions[key] ?? 0) : 0;
+        if (current !== expectedVersion) {
+          return { success: false, conflict: true, key, version: current };
+        }
+      }
+
+      const version = writeSignal(c, key, value);
+      return { success: true, key, value, version };
+    },
+
+    /**
+     * Merge a CRDT change into the document stored at a key
+     *
+     * Subscribers receive just the change (`signalMerged`), which merges
+     * into their copy of the document.
+     */
+    mergeSignal: (c, { key, change }: { key: string; change: CrdtDocument }) => {
+      const stored = c.state.signals[key];
+      const merged =
+        isCrdtDocument(stored) && stored.crdt === change.crdt
+          ? mergeDocuments(stored, change)
+          : change;
+
+      const version = (c.state.revisions[key] ?? 0) + 1;
+      c.state.signals[key] = merged;
+      c.state.revisions[key] = version;
+      notify(c, key, 'signalMerged', { key, change, version });
+      return { success: true, key, version };
+    },
+
+    /**
+     * Set several signal values in one action, in order
+     */
+    setSignals: (c, { entries }: { entries: Array<{ key: string; value: any }> }) => {
+      const versions = entries.map(({ key, value }) => writeSignal(c, key, value));
+      return { success: true, versions };
     },
 
     /**
@@ -49,14 +183,50 @@ export const reactiveStateActor = actor({
     deleteSignal: (c, { key }: { key: string }) => {
       const existed = key in c.state.signals;
       delete c.state.signals[key];
+
+      if (existed) {
+        // Keep counting so a re-created key never reuses a revision
+        const version = (c.state.revisions[key] ?? 0) + 1;
+        c.state.revisions[key] = version;
+
+        notify(c, key, 'signalDeleted', { key, version });
+      }
+
       return { success: true, existed };
     },
 
     /**
-     * Get all signals
+     * Get signals page by page, in key order
+     *
+     * Pass the returned `nextCursor` to get the next page; it is omitted on
+     * the last one.
      */
-    getAllSignals: (c) => {
-      return { signals: c.state.signals };
+    getAllSignals: (
+      c,
+      { prefix = '', cursor, limit = DEFAULT_PAGE_SIZE }: {
+        prefix?: string;
+        cursor?: string;
+        limit?: number;
+      } = {}
+    ) => {
+      const pageSize = Math.min(Math.max(1, limit), MAX_PAGE_SIZE);
+      const keys = Object.keys(c.state.signals)
+        .filter((key) => key.startsWith(prefix) && (cursor === undefined || key > cursor))
+        .sort();
+
+      const page = keys.slice(0, pageSize);
+      const signals: Record<string, any> = {};
+      const versions: Record<string, number> = {};
+      for (const key of page) {
+        signals[key] = c.state.signals[key];
+        versions[key] = c.state.revisions[key] ?? 0;
+      }
+
+      return {
+        signals,
+        versions,
+        ...(keys.length > pageSize && { nextCursor: page[page.length - 1] }),
+      };
     },
 
     /**
@@ -74,6 +244,7 @@ export const reactiveStateActor = actor({
      */
     updateStream: (c, { key, value }: { key: string; value: any }) => {
       c.state.streams[key] = value;
+      c.broadcast('streamChanged', { key, value });
       return { success: true, key, value };
     },
 
@@ -98,6 +269,7 @@ export const reactiveStateActor = actor({
      */
     clear: (c) => {
       c.state.signals = {};
+      c.state.revisions = {};
       c.state.streams = {};
       return { success: true };
     },
@@ -20,9 +20,14 @@
  */
 
 export { reactiveStateActor } from './actors/reactiveState';
+export type {
+  SignalChangedEvent,
+  SignalDeletedEvent,
+  SignalMergedEvent,
+} from './actors/reactiveState';
 export { reactiveRegistry } from './registry';
-export { initReactiveBackend, isRivetBackendInitialized } from './init';
-export type { ReactiveBackend } from './init';
+export { initReactiveBackend, createRivetKitBackend, isRivetBackendInitialized } from './init';
+export type { ReactiveBackend, RivetKitBackendOptions } from './init';
 export type { Registry } from 'rivetkit';
 
 // Note: The factory pattern (createReactiveBackend) has been replaced
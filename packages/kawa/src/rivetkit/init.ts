@@ -2,21 +2,33 @@
  * Initialize RivetKit backend for reactive-rsc
  *
  * Call this once in your server startup to enable RivetKit persistence.
+ * The backend is a SignalBackend adapter around the reactiveState actor.
  */
 
 import type { Registry } from 'rivetkit';
-import type { WritableSignal } from '../signal';
+import type { SignalBackend } from '../backend';
+import { getGlobalBackend, setGlobalBackend, SignalConflictError } from '../backend';
+import { ChangeListeners } from '../backends/listeners';
+import type {
+  SignalChangedEvent,
+  SignalDeletedEvent,
+  SignalMergedEvent,
+} from './actors/reactiveState';
 
 /**
  * Backend instance for persisting signals to RivetKit
  */
-export interface ReactiveBackend {
+export interface ReactiveBackend extends SignalBackend {
   registry: Registry<any>;
   actorName: string;
   actorId: string;
 }
 
-let globalBackend: ReactiveBackend | null = null;
+export interface RivetKitBackendOptions {
+  registry: Registry<any>;
+  actorName?: string;
+  actorId?: string;
+}
 
 /**
  * Initialize RivetKit backend
@@ -40,21 +52,14 @@ let globalBackend: ReactiveBackend | null = null;
  * const users = namespace("users", { backend: userBackend });
  * ```
  */
-export function initReactiveBackend(options: {
-  registry: Registry<any>;
-  actorName?: string;
-  actorId?: string;
-  global?: boolean;
-}): ReactiveBackend {
-  const backend: ReactiveBackend = {
-    registry: options.registry,
-    actorName: options.actorName || 'reactiveState',
-    actorId: options.actorId || 'global',
-  };
+export function initReactiveBackend(
+  options: RivetKitBackendOptions & { global?: boolean }
+): ReactiveBackend {
+  const backend = createRivetKitBackend(options);
 
   // Set as global backend by default
   if (options.global !== false) {
-    globalBackend = backend;
+    setGlobalBackend(backend);
     console.log(`[reactive-rsc] Initialized global RivetKit backend: ${backend.actorName}:${backend.actorId}`);
   }
 
@@ -65,21 +70,17 @@ export function initReactiveBackend(options: {
  * Check if RivetKit backend is initialized
  */
 export function isRivetBackendInitialized(): boolean {
-  return globalBackend !== null;
-}
-
-/**
- * Get the global backend (internal)
- */
-export function getGlobalBackend(): ReactiveBackend | null {
-  return globalBackend;
+  const backend = getGlobalBackend();
+  return backend !== null && 'registry' in backend;
 }
 
 /**
  * Get the RivetKit actor for a backend
- * (Internal - used by signal implementation)
+ * (Internal - used by the RivetKit backend)
  */
-export async function getReactiveActor(backend: ReactiveBackend) {
+export async function getReactiveActor(
+  backend: Pick<ReactiveBackend, 'registry' | 'actorName' | 'actorId'>
+) {
   // Get the actor from the registry using RivetKit's client API
   // The registry is typed as `any` to support different RivetKit versions
   const registry = backend.registry as any;
@@ -95,42 +96,130 @@ export async function getReactiveActor(backend: ReactiveBackend) {
 }
 
 /**
- * Sync a signal to RivetKit actor
- * (Internal - used by signal implementation)
+ * Create a RivetKit backend without making it the global default
+ *
+ * Signals are stored in the reactiveState actor; other servers' writes
+ * arrive as `signalChanged` events on one connection per backend.
  */
-export async function syncSignalToRivet(key: string, value: any, backend?: ReactiveBackend) {
-  const targetBackend = backend || globalBackend;
-
-  if (!targetBackend) {
-    // No RivetKit backend - skip sync
-    return;
-  }
+export function createRivetKitBackend(options: RivetKitBackendOptions): ReactiveBackend {
+  const listeners = new ChangeListeners();
+  let connection: Promise<any> | undefined;
+
+  const connect = async () => {
+    const actor = await getReactiveActor(backend);
+
+    if (typeof actor.connect !== 'function') {
+      throw new Error(
+        `Actor does not support connections. Make sure you're using a compatible RivetKit version.`
+      );
+    }
+
+    const conn = await actor.connect();
+    conn.on('signalChanged', (event: SignalChangedEvent) => listeners.emit(event));
+    conn.on('signalDeleted', ({ key, version }: SignalDeletedEvent) =>
+      listeners.emit({ key, value: undefined, version, deleted: true })
+    );
+    conn.on('signalMerged', ({ key, change, version }: SignalMergedEvent) =>
+      listeners.emit({ key, value: change, version, delta: true })
+    );
+
+    console.log(
+      `[reactive-rsc] Listening for signal changes on ${backend.actorName}:${backend.actorId}`
+    );
+    return conn;
+  };
 
-  try {
-    const actor = await getReactiveActor(targetBackend);
-    await actor.call('setSignal', { key, value });
-  } catch (error) {
-    console.error(`[reactive-rsc] Failed to sync signal ${key}:`, error);
-  }
-}
+  const getConnection = () => {
+    if (!connection) {
+      connection = connect();
+      // Forget a failed connection so the next subscription retries
+      connection.catch(() => {
+        connection = undefined;
+      });
+    }
+    return connection;
+  };
 
-/**
- * Load a signal from RivetKit actor
- * (Internal - used by signal implementation)
- */
-export async function loadSignalFromRivet(key: string, backend?: ReactiveBackend): Promise<any | undefined> {
-  const targetBackend = backend || globalBackend;
+  const backend: ReactiveBackend = {
+    registry: options.registry,
+    actorName: options.actorName || 'reactiveState',
+    actorId: options.actorId || 'global',
 
-  if (!targetBackend) {
-    return undefined;
-  }
+    async get(key) {
+      const actor = await getReactiveActor(backend);
+      const result = await actor.call('getSignal', { key });
+      return result.exists ? { key, value: result.value, version: result.version ?? 0 } : undefined;
+    },
+
+    async set(key, value, options) {
+      const actor = await getReactiveActor(backend);
+      const expectedVersion = options?.expectedVersion;
+      const result = await actor.call('setSignal', { key, value, expectedVersion });
+
+      if (result.conflict) {
+        throw new SignalConflictError(key, expectedVersion!, result.version);
+      }
+      return result.version;
+    },
+
+    async setMany(entries) {
+      const actor = await getReactiveActor(backend);
+      const result = await actor.call('setSignals', { entries });
+      return result.versions;
+    },
+
+    async merge(key, change) {
+      const actor = await getReactiveActor(backend);
+      const result = await actor.call('mergeSignal', { key, change });
+      return result.version;
+    },
+
+    async delete(key) {
+      const actor = await getReactiveActor(backend);
+      const result = await actor.call('deleteSignal', { key });
+      return result.existed;
+    },
+
+    async subscribe(pattern, listener) {
+      const conn = await getConnection();
+      const subscribed = listeners.has(pattern);
+      const cleanup = listeners.add(pattern, listener);
+
+      if (!subscribed) {
+        try {
+          await conn.call('subscribeSignals', { pattern });
+        } catch (error) {
+          cleanup();
+          throw error;
+        }
+      }
+
+      return () => {
+        cleanup();
+        if (!listeners.has(pattern)) {
+          conn.call('unsubscribeSignals', { pattern }).catch((error: unknown) => {
+            console.error(`[reactive-rsc] Failed to unsubscribe from ${pattern}:`, error);
+          });
+        }
+      };
+    },
+
+    async list(prefix) {
+      const actor = await getReactiveActor(backend);
+      const entries = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = await actor.call('getAllSignals', { prefix, cursor });
+        for (const [key, value] of Object.entries(page.signals)) {
+          entries.push({ key, value, version: page.versions?.[key] ?? 0 });
+        }
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      return entries;
+    },
+  };
 
-  try {
-    const actor = await getReactiveActor(targetBackend);
-    const result = await actor.call('getSignal', { key });
-    return result.exists ? result.value : undefined;
-  } catch (error) {
-    console.error(`[reactive-rsc] Failed to load signal ${key}:`, error);
-    return undefined;
-  }
+  return backend;
 }
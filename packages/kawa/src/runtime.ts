@@ -2,6 +2,13 @@
  * Reactive Runtime - Manages reactive component streams
  *
  * Handles component registration, subscription management, and deduplication.
+ *
+ * Every update is tagged with an event ID (`<runtime epoch>-<version>`) so
+ * reconnecting clients can resume: missed updates are replayed from a bounded
+ * buffer, or the current value is sent as a snapshot when the buffer no longer
+ * reaches back far enough. After a restart, or on another server, the
+ * reactive session renders the component again to register its stream, and
+ * the event ID (from another epoch) gets a snapshot.
  */
 
 import type { Signal } from './signal';
@@ -13,9 +20,14 @@ export type StreamCallback<T> = {
 export type StreamFunction<T> = (stream: StreamCallback<T>) => (() => void) | void;
 
 export type Subscriber<T> = {
-  send: (data: T) => void;
+  send: (data: T, eventId: string) => void;
 };
 
+interface StreamEvent<T> {
+  version: number;
+  value: T;
+}
+
 interface ReactiveStream<T = any> {
   initialValue: T;
   streamFn: StreamFunction<T>;
@@ -23,12 +35,29 @@ interface ReactiveStream<T = any> {
   subscribers: Set<Subscriber<T>>;
   cleanup?: () => void;
   currentValue: T;
+  version: number;
+  // Most recent updates, oldest first, for resuming subscribers
+  history: StreamEvent<T>[];
 }
 
+interface SignalVersion {
+  version: number;
+  value: unknown;
+}
+
+// Updates kept per stream for replay
+const REPLAY_BUFFER_SIZE = 100;
+
 class ReactiveRuntime {
   // Map of componentId+scopeHash -> ReactiveStream
   private streams = new Map<string, ReactiveStream>();
 
+  // Last value and version seen per signal
+  private signalVersions = new WeakMap<Signal<any>, SignalVersion>();
+
+  // Distinguishes event IDs issued by this process from earlier ones
+  private epoch = crypto.randomUUID().slice(0, 8);
+
   /**
    * Register a reactive component stream
    */
@@ -54,6 +83,8 @@ class ReactiveRuntime {
       scope,
       subscribers: new Set(),
       currentValue: initialValue,
+      version: 0,
+      history: [],
     };
 
     this.streams.set(scopeKey, stream);
@@ -63,8 +94,11 @@ class ReactiveRuntime {
 
   /**
    * Subscribe to a reactive stream
+   *
+   * Pass the last event ID the subscriber received to resume: only missed
+   * updates are sent, or the current value if they are no longer buffered.
    */
-  subscribe<T>(streamKey: string, subscriber: Subscriber<T>): () => void {
+  subscribe<T>(streamKey: string, subscriber: Subscriber<T>, lastEventId?: string): () => void {
     const stream = this.streams.get(streamKey) as ReactiveStream<T> | undefined;
 
     if (!stream) {
@@ -77,8 +111,15 @@ class ReactiveRuntime {
     // Add subscriber
     stream.subscribers.add(subscriber);
 
-    // Send current value immediately
-    subscriber.send(stream.currentValue);
+    const missed = this.getMissedEvents(stream, lastEventId);
+
+    if (missed) {
+      // Replay only what the subscriber hasn't seen
+      missed.forEach((event) => subscriber.send(event.value, this.toEventId(event.version)));
+    } else {
+      // Send current value immediately
+      subscriber.send(stream.currentValue, this.toEventId(stream.version));
+    }
 
     // Start stream if this is first subscriber
     if (stream.subscribers.size === 1 && !stream.cleanup) {
@@ -110,8 +151,16 @@ class ReactiveRuntime {
     const cleanup = stream.streamFn({
       next: (value: T) => {
         stream.currentValue = value;
+        stream.version++;
+
+        stream.history.push({ version: stream.version, value });
+        if (stream.history.length > REPLAY_BUFFER_SIZE) {
+          stream.history.shift();
+        }
+
         // Broadcast to all subscribers
-        stream.subscribers.forEach((sub) => sub.send(value));
+        const eventId = this.toEventId(stream.version);
+        stream.subscribers.forEach((sub) => sub.send(value, eventId));
       },
     });
 
@@ -124,20 +173,120 @@ class ReactiveRuntime {
    * Subscribe to a signal
    *
    * Uses signal's built-in subscribe method which is powered by
-   * @preact/signals-core's effect system for efficient reactivity
+   * @preact/signals-core's effect system for efficient reactivity.
+   *
+   * A signal is state rather than a sequence of events, so there is nothing
+   * to replay: a resuming subscriber either is up to date or gets the
+   * current value.
    */
-  subscribeToSignal<T>(signal: Signal<T>, subscriber: Subscriber<T>): () => void {
+  subscribeToSignal<T>(
+    signal: Signal<T>,
+    subscriber: Subscriber<T>,
+    lastEventId?: string
+  ): () => void {
     console.log(`[ReactiveRuntime] Subscribing to signal`);
 
+    let skipCurrent = this.isSignalCurrent(signal, lastEventId);
+
     // Subscribe to signal changes using the signal's subscribe method
     // This now uses Preact's effect() under the hood for auto-tracking
     const unsubscribe = signal.subscribe((value) => {
-      subscriber.send(value);
+      const version = this.trackSignalVersion(signal, value);
+
+      // The first call delivers the current value
+      if (skipCurrent) {
+        skipCurrent = false;
+        return;
+      }
+
+      subscriber.send(value, this.toEventId(version));
     });
 
     return unsubscribe;
   }
 
+  /**
+   * Bump a signal's version when it holds a new value
+   */
+  private trackSignalVersion(signal: Signal<any>, value: unknown): number {
+    let entry = this.signalVersions.get(signal);
+
+    if (!entry) {
+      entry = { version: 0, value };
+      this.signalVersions.set(signal, entry);
+    } else if (!Object.is(entry.value, value)) {
+      entry.version++;
+      entry.value = value;
+    }
+
+    return entry.version;
+  }
+
+  /**
+   * Whether a subscriber that last saw `lastEventId` already has the signal's value
+   */
+  private isSignalCurrent(signal: Signal<any>, lastEventId?: string): boolean {
+    const version = this.parseEventId(lastEventId);
+    const entry = this.signalVersions.get(signal);
+
+    return (
+      version !== undefined &&
+      entry !== undefined &&
+      entry.version === version &&
+      Object.is(entry.value, signal.value)
+    );
+  }
+
+  /**
+   * Updates a resuming subscriber missed, or `null` if it needs a snapshot
+   */
+  private getMissedEvents<T>(
+    stream: ReactiveStream<T>,
+    lastEventId?: string
+  ): StreamEvent<T>[] | null {
+    const version = this.parseEventId(lastEventId);
+
+    if (version === undefined || version > stream.version) {
+      return null;
+    }
+
+    if (version === stream.version) {
+      return [];
+    }
+
+    // Buffer overflowed past the subscriber's last event
+    const oldest = stream.history[0];
+    if (!oldest || oldest.version > version + 1) {
+      return null;
+    }
+
+    return stream.history.filter((event) => event.version > version);
+  }
+
+  private toEventId(version: number): string {
+    return `${this.epoch}-${version}`;
+  }
+
+  /**
+   * Version of an event ID issued by this process, if it is one
+   */
+  private parseEventId(eventId?: string): number | undefined {
+    if (!eventId) return undefined;
+
+    const separator = eventId.lastIndexOf('-');
+    if (eventId.slice(0, separator) !== this.epoch) return undefined;
+
+    const version = Number(eventId.slice(separator + 1));
+    return Number.isInteger(version) ? version : undefined;
+  }
+
+  /**
+   * Check whether a stream is registered
+   */
+  hasStream(streamKey: string): boolean {
+    return this.streams.has(streamKey);
+  }
+
   /**
    * Get current value for a stream
    */
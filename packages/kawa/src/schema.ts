@@ -0,0 +1,101 @@
+/**
+ * Schema Validation - Standard Schema support for signals
+ *
+ * Signals accept any schema implementing the Standard Schema interface
+ * (Zod, Valibot, ArkType, ...). Values are checked on `set`, when hydrating
+ * from a backend and on client mutations.
+ *
+ * The interface is copied from the Standard Schema spec
+ * (https://standardschema.dev) so kawa doesn't depend on any schema library.
+ */
+
+/**
+ * The Standard Schema interface
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+}
+
+/**
+ * Thrown when a value doesn't match a signal's schema
+ */
+export class SignalValidationError extends Error {
+  constructor(
+    public readonly key: string | undefined,
+    public readonly issues: ReadonlyArray<StandardSchemaV1.Issue>
+  ) {
+    const details = issues
+      .map((issue) => {
+        const path = issue.path
+          ?.map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+          .join('.');
+        return path ? `${path}: ${issue.message}` : issue.message;
+      })
+      .join('; ');
+
+    super(key ? `Invalid value for signal ${key}: ${details}` : `Invalid signal value: ${details}`);
+    this.name = 'SignalValidationError';
+  }
+}
+
+function unwrapResult<T>(result: StandardSchemaV1.Result<T>, key?: string): T {
+  if (result.issues) {
+    throw new SignalValidationError(key, result.issues);
+  }
+  return result.value;
+}
+
+/**
+ * Validate a value against a schema, returning the (possibly transformed)
+ * output. Synchronous schemas return directly; async ones return a promise.
+ * (Internal - used by signals, backends and the mutation handler)
+ *
+ * @throws SignalValidationError
+ */
+export function validateValue<T>(
+  schema: StandardSchemaV1<unknown, T>,
+  value: unknown,
+  key?: string
+): T | Promise<T> {
+  const result = schema['~standard'].validate(value);
+
+  if (result instanceof Promise) {
+    return result.then((resolved) => unwrapResult(resolved, key));
+  }
+
+  return unwrapResult(result, key);
+}
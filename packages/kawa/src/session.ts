@@ -0,0 +1,295 @@
+/**
+ * Reactive Session - Subscriptions multiplexed over one client connection
+ *
+ * Transport-independent core of the reactive handler. A session verifies
+ * stream tokens, subscribes to the runtime, re-renders components on every
+ * update and emits frames tagged with the subscription ID through a sink.
+ */
+
+import { createElement, type ComponentType } from 'react';
+import { reactiveRuntime } from './runtime';
+import { getSignalById } from './registry';
+import { renderInScope, unwrapReactive, type ReactiveComponent } from './reactive-hoc';
+import { forwardComponentProps, type ComponentResolver } from './components';
+import { verifyStreamToken } from './tokens';
+import { isAuthorized } from './auth';
+import { runWithContext } from './context';
+import { runAsRerender } from './use-reactive';
+import type { ReactiveFrame } from './protocol';
+import type { RscRenderer } from './handler';
+import type { WritableSignal } from './signal';
+
+/**
+ * Where a session writes its frames
+ */
+export interface FrameSink {
+  send(frame: ReactiveFrame): void;
+  sendChunk(id: string, chunk: Uint8Array): void;
+}
+
+export interface SessionOptions {
+  resolveComponent: ComponentResolver;
+  renderToReadableStream: RscRenderer;
+  getSubject?: (request: Request) => string | undefined | Promise<string | undefined>;
+  createContext?: (request: Request) => unknown | Promise<unknown>;
+  onError: (error: unknown) => void;
+}
+
+interface Subscription {
+  unsubscribe?: () => void;
+  // Latest value waiting to be rendered, so bursts of updates coalesce
+  pending?: { data: unknown; eventId: string };
+  rendering: boolean;
+}
+
+class SubscribeError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export class ReactiveSession {
+  private subscriptions = new Map<string, Subscription>();
+  private context?: Promise<unknown>;
+  private subject?: Promise<string | undefined>;
+  private closed = false;
+
+  constructor(
+    private request: Request,
+    private options: SessionOptions,
+    private sink: FrameSink
+  ) {}
+
+  /**
+   * Subscribe to the stream or signal named by a stream token
+   *
+   * With `lastEventId`, only updates after that event are rendered.
+   */
+  async subscribe(id: string, token: string, lastEventId?: string): Promise<void> {
+    if (this.closed) return;
+
+    if (this.subscriptions.has(id)) {
+      this.sink.send({ type: 'SUBSCRIBE_ERROR', id, status: 409, error: `Duplicate subscription: ${id}` });
+      return;
+    }
+
+    // Reserve the ID while the token is verified
+    const subscription: Subscription = { rendering: false };
+    this.subscriptions.set(id, subscription);
+
+    try {
+      const { Component, props, propsKey, streamKey, signal, ctx } = await this.resolve(token);
+
+      // Unsubscribed or closed while resolving
+      if (this.subscriptions.get(id) !== subscription) return;
+
+      const send = (data: unknown, eventId: string) =>
+        this.schedule(id, subscription, Component, props, propsKey, ctx, data, eventId);
+
+      // Acknowledge before the runtime sends (or replays) the first update
+      this.sink.send({ type: 'subscribed', id });
+
+      subscription.unsubscribe = streamKey
+        ? reactiveRuntime.subscribe(streamKey, { send }, lastEventId)
+        : reactiveRuntime.subscribeToSignal(signal!, { send }, lastEventId);
+    } catch (err) {
+      this.subscriptions.delete(id);
+      const status = err instanceof SubscribeError ? err.status : 500;
+      if (status === 500) this.options.onError(err);
+      this.sink.send({ type: 'SUBSCRIBE_ERROR', id, status, error: String((err as Error).message ?? err) });
+    }
+  }
+
+  /**
+   * Release a subscription
+   */
+  unsubscribe(id: string): void {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) return;
+
+    this.subscriptions.delete(id);
+    subscription.unsubscribe?.();
+  }
+
+  /**
+   * Release every subscription; no more frames are sent afterwards
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+
+    for (const id of Array.from(this.subscriptions.keys())) {
+      this.unsubscribe(id);
+    }
+  }
+
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  /**
+   * Verify a token and resolve everything needed to render its component
+   */
+  private async resolve(token: string) {
+    // Only subscribe to what the server signed at render time
+    const claims = await verifyStreamToken(token);
+
+    if (!claims) {
+      throw new SubscribeError(401, 'Invalid or expired token');
+    }
+
+    this.subject ??= Promise.resolve(this.options.getSubject?.(this.request));
+    if (claims.sub !== undefined && claims.sub !== (await this.subject)) {
+      throw new SubscribeError(403, 'Token was issued to a different subject');
+    }
+
+    const { componentId, props = {}, streamKey, signalId } = claims;
+
+    if (!streamKey && !signalId) {
+      throw new SubscribeError(400, 'Token has no streamKey or signalId');
+    }
+
+    const resolved = await this.options.resolveComponent(componentId);
+
+    if (!resolved) {
+      throw new SubscribeError(404, `Unknown component: ${componentId}`);
+    }
+
+    // Render the wrapped component itself, not its <Reactive> boundary
+    const Component = unwrapReactive(resolved) as ComponentType<any>;
+    const { propsKey } = forwardComponentProps(componentId, props);
+
+    this.context ??= Promise.resolve(this.options.createContext?.(this.request));
+    const ctx = await this.context;
+
+    if (streamKey && !reactiveRuntime.hasStream(streamKey)) {
+      // Issued before a restart or by another instance: register the stream here
+      await this.registerStreams(Component, props, propsKey, ctx);
+
+      if (!reactiveRuntime.hasStream(streamKey)) {
+        throw new SubscribeError(404, `Stream not found: ${streamKey}`);
+      }
+    }
+
+    let signal: WritableSignal<unknown> | undefined;
+    if (!streamKey && signalId) {
+      signal = getSignalById(signalId);
+
+      if (!signal) {
+        throw new SubscribeError(404, `Signal not found: ${signalId}`);
+      }
+
+      if (!(await isAuthorized(signal, ctx, 'read'))) {
+        throw new SubscribeError(403, `Not authorized to read signal: ${signalId}`);
+      }
+    }
+
+    return { Component, props, propsKey, streamKey, signal, ctx };
+  }
+
+  /**
+   * Render a component instance the way reactive() does, so the streams it
+   * creates are registered in this process; the output is discarded
+   */
+  private async registerStreams(
+    Component: ComponentType<any>,
+    props: Record<string, unknown>,
+    propsKey: string,
+    ctx: unknown
+  ): Promise<void> {
+    // Runs while React renders, so the component's hooks work
+    const Register = () => {
+      renderInScope(Component as ReactiveComponent<any>, props, { propsKey });
+      return null;
+    };
+
+    const stream = await runWithContext(ctx, () =>
+      this.options.renderToReadableStream(createElement(Register), {
+        onError: this.options.onError,
+      })
+    );
+    await stream.pipeTo(new WritableStream());
+  }
+
+  /**
+   * Queue a render, coalescing updates that arrive while one is in flight
+   */
+  private schedule(
+    id: string,
+    subscription: Subscription,
+    Component: ComponentType<any>,
+    props: Record<string, unknown>,
+    propsKey: string,
+    ctx: unknown,
+    data: unknown,
+    eventId: string
+  ): void {
+    subscription.pending = { data, eventId };
+    if (subscription.rendering) return;
+
+    subscription.rendering = true;
+    (async () => {
+      while (subscription.pending && this.subscriptions.get(id) === subscription) {
+        const { data: latest, eventId: latestEventId } = subscription.pending;
+        subscription.pending = undefined;
+        await this.render(id, subscription, Component, props, propsKey, ctx, latest, latestEventId);
+      }
+      subscription.rendering = false;
+    })();
+  }
+
+  /**
+   * Render the component with a value and stream its RSC payload
+   */
+  private async render(
+    id: string,
+    subscription: Subscription,
+    Component: ComponentType<any>,
+    props: Record<string, unknown>,
+    propsKey: string,
+    ctx: unknown,
+    data: unknown,
+    eventId: string
+  ): Promise<void> {
+    const isActive = () => !this.closed && this.subscriptions.get(id) === subscription;
+    // In the instance's scope, so only its own useReactiveStream calls get `data`
+    const Rerender = () =>
+      renderInScope(Component as ReactiveComponent<any>, { ...props, _reactiveData: data }, {
+        propsKey,
+      });
+
+    try {
+      const rscStream = await runWithContext(ctx, () =>
+        runAsRerender(propsKey, data, () =>
+          this.options.renderToReadableStream(createElement(Rerender), {
+            onError: this.options.onError,
+          })
+        )
+      );
+      const reader = rscStream.getReader();
+
+      this.sink.send({ type: 'RSC_START', id, eventId });
+
+      while (isActive()) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        this.sink.sendChunk(id, value);
+      }
+
+      if (!isActive()) {
+        reader.cancel().catch(() => {});
+        return;
+      }
+
+      this.sink.send({ type: 'RSC_END', id, eventId });
+    } catch (err) {
+      this.options.onError(err);
+      if (isActive()) {
+        this.sink.send({ type: 'RSC_ERROR', id, error: String(err) });
+      }
+    }
+  }
+}
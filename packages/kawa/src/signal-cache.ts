@@ -0,0 +1,141 @@
+/**
+ * Signal Cache - Bounded storage for the signals of namespaces and families
+ *
+ * Keeps signals by full key in least recently used order. With `ttl`,
+ * signals that weren't accessed for that long are evicted; with
+ * `maxEntries`, the least recently used ones are evicted to make room.
+ * Signals with subscribers (e.g. open streams) are never evicted.
+ */
+
+import { hasSubscribers, type Signal } from './signal';
+
+/**
+ * Why a signal was evicted: `expired` after `ttl`, `capacity` to stay
+ * within `maxEntries`
+ */
+export type EvictionReason = 'expired' | 'capacity';
+
+export interface EvictionOptions {
+  /**
+   * Evict signals that weren't accessed (created, looked up through the
+   * namespace or family, read, subscribed to or written) for this many
+   * milliseconds
+   */
+  ttl?: number;
+
+  /**
+   * Keep at most this many signals, evicting the least recently used
+   */
+  maxEntries?: number;
+
+  /**
+   * Also delete the stored value of signals that expire after `ttl`, so the
+   * backend forgets them too. Signals evicted for `maxEntries` keep theirs.
+   * @default false
+   */
+  expire?: boolean;
+
+  /**
+   * Called after a signal was evicted, with its full key
+   */
+  onEvict?: (key: string, reason: EvictionReason) => void;
+}
+
+interface CacheEntry<S> {
+  sig: S;
+  lastUsed: number;
+}
+
+/**
+ * (Internal - used by namespaces)
+ */
+export class SignalCache<S extends Signal<any>> {
+  // Map order is recency order: the first entry is the least recently used
+  private entries = new Map<string, CacheEntry<S>>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private options: EvictionOptions,
+    private onEvict: (key: string, sig: S, reason: EvictionReason) => void
+  ) {}
+
+  get(key: string): S | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.use(key, entry);
+    return entry.sig;
+  }
+
+  /**
+   * Record an access to a signal that is still cached under `key`
+   */
+  touch(key: string, sig: S): void {
+    const entry = this.entries.get(key);
+    if (entry?.sig === sig) {
+      this.use(key, entry);
+    }
+  }
+
+  private use(key: string, entry: CacheEntry<S>): void {
+    // Move to the end: the most recently used
+    this.entries.delete(key);
+    entry.lastUsed = Date.now();
+    this.entries.set(key, entry);
+  }
+
+  /**
+   * Remove a signal without calling the eviction callback
+   */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  set(key: string, sig: S): void {
+    this.entries.delete(key);
+    this.entries.set(key, { sig, lastUsed: Date.now() });
+
+    const { maxEntries } = this.options;
+    if (maxEntries !== undefined && this.entries.size > maxEntries) {
+      this.evictOldest(this.entries.size - maxEntries);
+    }
+    this.schedule();
+  }
+
+  private evictOldest(count: number): void {
+    for (const [key, entry] of this.entries) {
+      if (count === 0) return;
+      if (hasSubscribers(entry.sig)) continue;
+      this.evict(key, entry, 'capacity');
+      count--;
+    }
+  }
+
+  private sweep(): void {
+    this.timer = undefined;
+    const expiredBefore = Date.now() - this.options.ttl!;
+
+    for (const [key, entry] of this.entries) {
+      // Entries are in recency order, so the rest are newer
+      if (entry.lastUsed > expiredBefore) break;
+      if (!hasSubscribers(entry.sig)) {
+        this.evict(key, entry, 'expired');
+      }
+    }
+    this.schedule();
+  }
+
+  private schedule(): void {
+    const { ttl } = this.options;
+    if (ttl === undefined || this.timer || this.entries.size === 0) return;
+
+    this.timer = setTimeout(() => this.sweep(), ttl);
+    // Don't keep the process alive just to evict signals
+    this.timer.unref?.();
+  }
+
+  private evict(key: string, entry: CacheEntry<S>, reason: EvictionReason): void {
+    this.entries.delete(key);
+    this.onEvict(key, entry.sig, reason);
+  }
+}
@@ -10,8 +10,13 @@ import {
   effect,
   type Signal as PreactSignal,
 } from '@preact/signals-core';
-import type { ReactiveBackend } from './rivetkit/init';
-import { syncSignalToRivet } from './rivetkit/init';
+import { decodeStoredSignal, SignalConflictError, type SignalBackend } from './backend';
+import { flushBackend, syncSignal } from './write-queue';
+import { toPersisted } from './migrate';
+import { authorizeWrite, SignalAuthorizationError, type Authorizer } from './auth';
+import { getRequestContext } from './context';
+import { validateValue, type StandardSchemaV1 } from './schema';
+import type { SignalMigrations } from './migrate';
 
 export type Listener<T> = (value: T) => void;
 export type Cleanup = () => void;
@@ -29,60 +34,303 @@ export interface Signal<T> {
 export interface WritableSignal<T> extends Signal<T> {
   set(value: T | ((prev: T) => T)): void;
   update(fn: (prev: T) => T): void;
+  /**
+   * Read-modify-write against the signal's backend: `fn` runs on the
+   * stored value and the result is only written if nobody else wrote the
+   * key in between, otherwise `fn` runs again on the newer value. Resolves
+   * to the written value.
+   *
+   * @throws SignalConflictError if every attempt lost a race
+   */
+  update(fn: (prev: T) => T, options: AtomicUpdateOptions): Promise<T>;
+
+  /**
+   * Resolves once the stored value was loaded from the signal's backend.
+   * Already resolved for signals without one.
+   */
+  readonly ready: Promise<void>;
+}
+
+export interface AtomicUpdateOptions {
+  atomic: true;
+
+  /**
+   * How often to re-run `fn` after a concurrent write
+   * @default 5
+   */
+  retries?: number;
+}
+
+export interface SignalOptions<T> {
+  /**
+   * Standard Schema (Zod, Valibot, ArkType, ...) every value must match.
+   * Checked on `set`, on hydration from a backend and on client mutations.
+   */
+  schema?: StandardSchemaV1<unknown, T>;
+
+  /**
+   * Version of the value's shape, stored alongside it in the backend.
+   * Bump it when the shape changes and add a migration.
+   * @default 0
+   */
+  version?: number;
+
+  /**
+   * Upgrades for values persisted by older versions, keyed by the version
+   * they upgrade from. Upgraded values are written back to the backend.
+   *
+   * @example
+   * ```typescript
+   * { version: 1, migrate: { 0: (old) => ({ ...old, z: 0 }) } }
+   * ```
+   */
+  migrate?: SignalMigrations;
+}
+
+/**
+ * Mark a promise as settled the way React does, so `use()` returns
+ * immediately instead of suspending on hydration that already finished
+ * (Internal - also used by CRDT signals)
+ */
+export function trackReady(promise: Promise<void>): Promise<void> {
+  promise.then(() => Object.assign(promise, { status: 'fulfilled', value: undefined }));
+  return promise;
+}
+
+/**
+ * `ready` of signals that have nothing to load (Internal)
+ */
+export const hydrated: Promise<void> = Object.assign(Promise.resolve(), {
+  status: 'fulfilled',
+  value: undefined,
+});
+
+/**
+ * Whether a signal is still loading its stored value
+ * (Internal - used by useServerState)
+ */
+export function isHydrating(sig: Signal<unknown>): boolean {
+  const ready = (sig as Partial<WritableSignal<unknown>>).ready;
+  return !!ready && (ready as { status?: string }).status !== 'fulfilled';
 }
 
 /**
  * Internal wrapper to add subscribe method to Preact signals
  */
 function wrapSignal<T>(preactSig: PreactSignal<T>): Signal<T> {
-  return {
+  let subscribers = 0;
+
+  const wrapped = {
     get value() {
       return preactSig.value;
     },
     subscribe(listener: Listener<T>) {
+      subscribers++;
       // Use Preact's effect to subscribe to signal changes
       const dispose = effect(() => {
         listener(preactSig.value);
       });
-      return dispose;
+      let disposed = false;
+      return () => {
+        if (disposed) return;
+        disposed = true;
+        subscribers--;
+        dispose();
+      };
     },
     __isSignal: true as const,
   };
+
+  (wrapped as any).__hasSubscribers = () => subscribers > 0;
+  return wrapped;
+}
+
+/**
+ * Record that a signal was read, subscribed to or written (`write`)
+ * (Internal - namespaces set `__touch` so signals in use aren't evicted)
+ */
+export function touchSignal(sig: Signal<unknown>, write = false): void {
+  (sig as any).__touch?.(write);
+}
+
+/**
+ * Whether anyone is subscribed to a signal
+ * (Internal - used by namespaces to pick signals they may evict)
+ */
+export function hasSubscribers(sig: Signal<unknown>): boolean {
+  return (sig as any).__hasSubscribers?.() ?? false;
 }
 
 /**
  * Create a writable signal with auto-tracking capabilities
  *
  * Now powered by @preact/signals-core with full reactive graph support
+ *
+ * @example With a schema
+ * ```typescript
+ * const position = signal({ x: 0, y: 0 }, {
+ *   schema: z.object({ x: z.number(), y: z.number() }),
+ * });
+ *
+ * position.set({ x: 'left' }); // throws SignalValidationError
+ * ```
  */
-export function signal<T>(initialValue: T): WritableSignal<T> {
+export function signal<T>(initialValue: T, options: SignalOptions<T> = {}): WritableSignal<T> {
   const preactSig = preactSignal(initialValue);
+  const { schema, version = 0 } = options;
 
   const wrapped = wrapSignal(preactSig);
 
-  const writableSig: WritableSignal<T> = {
-    ...wrapped,
-    set(value: T | ((prev: T) => T)) {
-      if (typeof value === 'function') {
-        preactSig.value = (value as (prev: T) => T)(preactSig.value);
-      } else {
-        preactSig.value = value;
+  let ready = hydrated;
+  // Set when the signal is written while its stored value is loading
+  let dirty = false;
+
+  const write = (value: T) => {
+    // May attach an evicted signal again, so before looking up the backend
+    touchSignal(writableSig, true);
+    preactSig.value = value;
+    dirty = true;
+
+    // Queue the value for the backend if available (see write-queue.ts)
+    const key = (writableSig as any).__key;
+    const backend = (writableSig as any).__backend as SignalBackend | undefined;
+    if (key && backend) {
+      syncSignal(key, preactSig.value, backend, version);
+    }
+  };
+
+  const applySet = (value: T | ((prev: T) => T)) => {
+    const next =
+      typeof value === 'function' ? (value as (prev: T) => T)(preactSig.value) : value;
+
+    if (!schema) {
+      write(next);
+      return;
+    }
+
+    const key = (writableSig as any).__key as string | undefined;
+    const validated = validateValue(schema, next, key);
+
+    if (validated instanceof Promise) {
+      // Async schemas defer the write; invalid values can't be thrown to the caller
+      validated.then(write, (err) => console.error((err as Error).message ?? err));
+    } else {
+      write(validated);
+    }
+  };
+
+  const updateAtomically = async (fn: (prev: T) => T, retries: number): Promise<T> => {
+    touchSignal(writableSig, true);
+    const key = (writableSig as any).__key as string | undefined;
+    const backend = (writableSig as any).__backend as SignalBackend | undefined;
+    const authorize = (writableSig as any).__authorize as Authorizer | undefined;
+
+    if (key && authorize && !(await authorize(getRequestContext(), key, 'write'))) {
+      throw new SignalAuthorizationError(key, 'write');
+    }
+
+    // Nothing to race against without a backend
+    if (!key || !backend) {
+      const next = schema ? await validateValue(schema, fn(preactSig.value), key) : fn(preactSig.value);
+      write(next);
+      return next;
+    }
+
+    // Our own queued writes must land first or they'd look like conflicts
+    await flushBackend(backend);
+
+    for (let attempt = 0; ; attempt++) {
+      const entry = await backend.get(key);
+      const current = entry
+        ? (await decodeStoredSignal(key, entry.value, options)).value
+        : preactSig.value;
+
+      let next = fn(current);
+      if (schema) {
+        next = await validateValue(schema, next, key);
       }
 
-      // Sync to backend if available (async, fire-and-forget)
-      const key = (writableSig as any).__key;
-      const backend = (writableSig as any).__backend as ReactiveBackend | undefined;
-      if (key && backend) {
-        syncSignalToRivet(key, preactSig.value, backend).catch((err) => {
-          console.error(`Failed to sync signal ${key}:`, err);
+      try {
+        await backend.set(key, toPersisted(next, version), {
+          expectedVersion: entry?.version ?? 0,
         });
+      } catch (error) {
+        if (error instanceof SignalConflictError && attempt < retries) continue;
+        throw error;
       }
+
+      // Already stored, so don't queue it again
+      preactSig.value = next;
+      dirty = true;
+      return next;
+    }
+  };
+
+  const writableSig: WritableSignal<T> = {
+    // Spreading `wrapped` would snapshot the value getter, so forward it explicitly
+    get value() {
+      touchSignal(writableSig);
+      return preactSig.value;
     },
-    update(fn: (prev: T) => T) {
+    subscribe(listener: Listener<T>) {
+      // Count both ends of a subscription as access, so ttl runs from the last one
+      touchSignal(writableSig);
+      const unsubscribe = wrapped.subscribe(listener);
+      return () => {
+        unsubscribe();
+        touchSignal(writableSig);
+      };
+    },
+    __isSignal: true as const,
+    set(value: T | ((prev: T) => T)) {
+      authorizeWrite(writableSig, () => applySet(value));
+    },
+    update(fn: (prev: T) => T, options?: AtomicUpdateOptions): any {
+      if (options?.atomic) {
+        return updateAtomically(fn, options.retries ?? 5);
+      }
       writableSig.set(fn);
     },
+    get ready() {
+      return ready;
+    },
   };
 
+  // Load the stored value without writing it back; local writes made in
+  // the meantime are newer and win (Internal - used by namespaces)
+  (writableSig as any).__hydrate = (load: () => Promise<T | undefined>) => {
+    dirty = false;
+    ready = trackReady(
+      load().then((stored) => {
+        if (stored !== undefined && !dirty) {
+          preactSig.value = stored;
+        }
+      })
+    );
+  };
+
+  // Write a value that was already authorized and validated, without
+  // running the schema again (Internal - used by the mutation handler)
+  (writableSig as any).__write = write;
+
+  // Apply a value written elsewhere (another server) without syncing it
+  // back (Internal - used by cross-server propagation)
+  (writableSig as any).__receive = (value: T) => {
+    preactSig.value = value;
+    dirty = true;
+  };
+
+  // Go back to the initial value after the key was deleted elsewhere,
+  // without syncing it (Internal - used by cross-server propagation)
+  (writableSig as any).__reset = () => {
+    preactSig.value = initialValue;
+    dirty = true;
+  };
+
+  (writableSig as any).__hasSubscribers = (wrapped as any).__hasSubscribers;
+  (writableSig as any).__schema = schema;
+  (writableSig as any).__options = options;
+
   return writableSig;
 }
 
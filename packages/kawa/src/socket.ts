@@ -0,0 +1,166 @@
+/**
+ * Reactive Socket Handler - WebSocket transport for reactive components
+ *
+ * Alternative to the SSE handler: subscribe/unsubscribe messages travel on
+ * the same socket as the frames, and RSC chunks are sent as binary messages
+ * instead of base64 inside JSON. Subscriptions behave exactly as over SSE.
+ * Clients ping periodically; sockets that go quiet for `idleTimeout` are
+ * closed, which releases their runtime subscriptions.
+ *
+ * kawa doesn't depend on a WebSocket server; pass sockets from `ws`, Bun,
+ * Deno or any implementation with the standard event API.
+ */
+
+import { createSessionOptions, type ReactiveHandlerOptions } from './handler';
+import { ReactiveSession } from './session';
+import {
+  encodeChunkFrame,
+  isSubscribeRequest,
+  type ReactiveFrame,
+  type SocketMessage,
+} from './protocol';
+
+/**
+ * Minimal server-side WebSocket, satisfied by `ws`, Bun and Deno sockets
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string | Uint8Array): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: 'message' | 'close' | 'error', listener: (event: any) => void): void;
+}
+
+const OPEN = 1;
+const decoder = new TextDecoder();
+
+function isSocketMessage(value: unknown): value is SocketMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  const message = value as SocketMessage;
+  switch (message.type) {
+    case 'subscribe':
+      return isSubscribeRequest(message);
+    case 'unsubscribe':
+      return typeof message.id === 'string';
+    case 'ping':
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Parse a message from the client; throws if it isn't a well-formed SocketMessage
+ */
+function parseMessage(data: unknown): SocketMessage {
+  let message: unknown;
+  if (typeof data === 'string') {
+    message = JSON.parse(data);
+  } else if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    message = JSON.parse(decoder.decode(data as ArrayBuffer | ArrayBufferView));
+  } else {
+    throw new Error('Unsupported message data');
+  }
+
+  if (!isSocketMessage(message)) {
+    throw new Error('Malformed message');
+  }
+  return message;
+}
+
+/**
+ * Create a WebSocket handler for reactive components
+ *
+ * Call the returned function with every accepted socket and the request that
+ * upgraded it (used for getSubject and createContext). Point
+ * `<Reactive transport="websocket" endpoint="...">` at the socket URL.
+ *
+ * @example
+ * ```typescript
+ * import { WebSocketServer } from 'ws';
+ * import { createReactiveSocketHandler } from 'kawa';
+ *
+ * const handleSocket = createReactiveSocketHandler({ renderToReadableStream });
+ * const wss = new WebSocketServer({ port: 3001 });
+ *
+ * wss.on('connection', (socket, req) => {
+ *   handleSocket(socket, new Request(`http://${req.headers.host}${req.url}`, {
+ *     headers: req.headers as HeadersInit,
+ *   }));
+ * });
+ * ```
+ */
+export function createReactiveSocketHandler(
+  options: ReactiveHandlerOptions
+): (socket: WebSocketLike, request: Request) => void {
+  const sessionOptions = createSessionOptions(options);
+  const { idleTimeout } = sessionOptions;
+
+  return (socket: WebSocketLike, request: Request) => {
+    let closed = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const send = (data: string | Uint8Array) => {
+      if (closed || socket.readyState !== OPEN) return;
+      try {
+        socket.send(data);
+      } catch (err) {
+        sessionOptions.onError(err);
+        close();
+      }
+    };
+
+    const session = new ReactiveSession(request, sessionOptions, {
+      send: (frame: ReactiveFrame) => send(JSON.stringify(frame)),
+      sendChunk: (id, chunk) => send(encodeChunkFrame(id, chunk)),
+    });
+
+    // Stop rendering and release all subscriptions once the client is gone
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      console.log(`[ReactiveHandler] Socket closed`);
+      clearTimeout(idleTimer);
+      session.close();
+    };
+
+    // Half-open sockets never fire 'close'; drop them once pings stop
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        console.log(`[ReactiveHandler] Socket idle for ${idleTimeout}ms, closing`);
+        close();
+        socket.close(4000, 'Idle timeout');
+      }, idleTimeout);
+    };
+
+    resetIdleTimer();
+
+    socket.addEventListener('message', (event) => {
+      resetIdleTimer();
+
+      let message: SocketMessage;
+      try {
+        message = parseMessage(event.data);
+      } catch (err) {
+        console.error(`[ReactiveHandler] Invalid socket message:`, err);
+        return;
+      }
+
+      switch (message.type) {
+        case 'subscribe':
+          session.subscribe(message.id, message.token, message.lastEventId);
+          return;
+        case 'unsubscribe':
+          session.unsubscribe(message.id);
+          send(JSON.stringify({ type: 'unsubscribed', id: message.id } satisfies ReactiveFrame));
+          return;
+        case 'ping':
+          send(JSON.stringify({ type: 'pong' } satisfies ReactiveFrame));
+          return;
+      }
+    });
+
+    socket.addEventListener('close', close);
+    socket.addEventListener('error', close);
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Stream Tokens - Signed, scoped subscriptions
+ *
+ * Reactive components are rendered with an HMAC-signed token describing
+ * exactly what the client may subscribe to (stream or signal, component,
+ * props, expiry and optionally the user/session). The reactive handler
+ * verifies the token before subscribing, so clients can't tap arbitrary
+ * streams by guessing keys.
+ */
+
+/**
+ * Claims carried by a stream token
+ */
+export interface StreamTokenClaims {
+  streamKey?: string;
+  signalId?: string;
+  componentId: string;
+  /**
+   * Original props of the component instance, passed to every re-render
+   */
+  props?: Record<string, unknown>;
+  /**
+   * Subject (user or session ID) the token was issued to
+   */
+  sub?: string;
+  /**
+   * Expiry as a Unix timestamp in seconds
+   */
+  exp: number;
+}
+
+/**
+ * Provides the HMAC secret, e.g. from an environment variable or a KMS
+ */
+export type SecretProvider = () => string | Promise<string>;
+
+export interface StreamTokenOptions {
+  /**
+   * HMAC secret shared by every server that renders or serves reactive components
+   */
+  secret: string | SecretProvider;
+
+  /**
+   * Token lifetime in seconds
+   * @default 86400
+   */
+  ttl?: number;
+
+  /**
+   * Resolve the current user/session ID at render time
+   */
+  getSubject?: () => string | undefined | Promise<string | undefined>;
+}
+
+const DEFAULT_TTL = 60 * 60 * 24;
+
+// Per-process fallback secret - fine for a single server, but tokens won't
+// verify on other instances until a shared secret is configured
+let tokenOptions: StreamTokenOptions = {
+  secret: Array.from(crypto.getRandomValues(new Uint8Array(32)), (b) =>
+    b.toString(16).padStart(2, '0')
+  ).join(''),
+};
+
+const keyCache = new Map<string, Promise<CryptoKey>>();
+const encoder = new TextEncoder();
+
+/**
+ * Configure how stream tokens are signed
+ *
+ * @example
+ * ```typescript
+ * import { configureStreamTokens } from 'kawa';
+ *
+ * configureStreamTokens({
+ *   secret: () => process.env.KAWA_TOKEN_SECRET!,
+ *   ttl: 60 * 60,
+ *   getSubject: async () => (await getSession())?.userId,
+ * });
+ * ```
+ */
+export function configureStreamTokens(options: StreamTokenOptions): void {
+  tokenOptions = options;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(input: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(input.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  const secret =
+    typeof tokenOptions.secret === 'function' ? await tokenOptions.secret() : tokenOptions.secret;
+
+  if (!secret) {
+    throw new Error('[kawa] Stream token secret is empty');
+  }
+
+  if (!keyCache.has(secret)) {
+    keyCache.set(
+      secret,
+      crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+      )
+    );
+  }
+
+  return keyCache.get(secret)!;
+}
+
+/**
+ * Issue a signed stream token
+ *
+ * The subject defaults to `getSubject()` from configureStreamTokens().
+ */
+export async function createStreamToken(
+  claims: Omit<StreamTokenClaims, 'exp'>,
+  ttl: number = tokenOptions.ttl ?? DEFAULT_TTL
+): Promise<string> {
+  const sub = claims.sub ?? (await tokenOptions.getSubject?.());
+  const payload: StreamTokenClaims = {
+    ...claims,
+    ...(sub !== undefined && { sub }),
+    exp: Math.floor(Date.now() / 1000) + ttl,
+  };
+
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const key = await getSigningKey();
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a stream token and return its claims
+ *
+ * Returns `null` if the token is malformed, tampered with or expired.
+ */
+export async function verifyStreamToken(token: string): Promise<StreamTokenClaims | null> {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) {
+    return null;
+  }
+
+  try {
+    const key = await getSigningKey();
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as StreamTokenClaims;
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+      return null;
+    }
+
+    return claims;
+  } catch {
+    return null;
+  }
+}
@@ -6,12 +6,54 @@
  * 2. Subscribe to existing signal
  */
 
-import { useId } from 'react';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { use } from 'react';
 import { reactiveRuntime, type StreamFunction } from './runtime';
-import { isSignal, type Signal } from './signal';
+import { isHydrating, isSignal, type Signal, type WritableSignal } from './signal';
+import { getSignalKey } from './registry';
 
-// Track which components have registered to prevent duplicates during render
-const registeredComponents = new Map<string, string>();
+/**
+ * Reactive scope - collects the stream or signal a component subscribes to
+ * while a reactive() wrapper renders it (Internal)
+ */
+export interface ReactiveScope {
+  // Identifies the component instance: its component ID and a hash of its props
+  propsKey: string;
+  streamKey?: string;
+  signalId?: string;
+  // Signals still loading from their backend; the wrapper suspends on them and renders again
+  pending?: Promise<void>[];
+}
+
+let currentScope: ReactiveScope | null = null;
+
+// Instance the reactive endpoint re-renders for a stream update, and the pushed value
+const rerenderStorage = new AsyncLocalStorage<{ propsKey: string; data: unknown }>();
+
+/**
+ * Run a render function with a reactive scope active
+ * (Internal - used by the reactive() HOC)
+ */
+export function runInReactiveScope<T>(scope: ReactiveScope, fn: () => T): T {
+  const previousScope = currentScope;
+  currentScope = scope;
+  try {
+    return fn();
+  } finally {
+    currentScope = previousScope;
+  }
+}
+
+/**
+ * Run a re-render of a reactive component instance for a stream update
+ * (Internal - used by reactive sessions)
+ *
+ * useReactiveStream in that instance returns `data` instead of registering
+ * its stream again; reactive() components nested in it render as usual.
+ */
+export function runAsRerender<T>(propsKey: string, data: unknown, fn: () => T): T {
+  return rerenderStorage.run({ propsKey, data }, fn);
+}
 
 /**
  * useServerState - Subscribe to a shared server-side signal
@@ -19,6 +61,9 @@ const registeredComponents = new Map<string, string>();
  * Use this when you want to subscribe to external/shared state that's
  * managed outside of your component (e.g., global signals).
  *
+ * Suspends until a signal bound to a backend has loaded its stored value,
+ * so the first render never shows the initial value by mistake.
+ *
  * @example
  * import { serverTime } from './signals/server-time';
  *
@@ -28,8 +73,27 @@ const registeredComponents = new Map<string, string>();
  * }
  */
 export function useServerState<T>(signal: Signal<T>): T {
-  // For signals, we just return current value
-  // Client-side subscription will be handled by the client component wrapper
+  // Report the signal to an enclosing reactive() wrapper, which sets up
+  // the client-side subscription
+  if (currentScope) {
+    const signalId = getSignalKey(signal);
+    if (signalId) {
+      currentScope.signalId = signalId;
+    } else {
+      console.warn('[useServerState] Signal has no key - create it with keyedSignal() or a namespace to stream updates');
+    }
+  }
+
+  if (isHydrating(signal)) {
+    const ready = (signal as WritableSignal<T>).ready;
+    if (currentScope) {
+      // reactive() calls the component as a plain function, so it suspends on its behalf
+      (currentScope.pending ??= []).push(ready);
+    } else {
+      use(ready);
+    }
+  }
+
   return signal.value;
 }
 
@@ -39,6 +103,10 @@ export function useServerState<T>(signal: Signal<T>): T {
  * Use this when you want to create component-local reactive state that
  * updates over time (e.g., timers, intervals, async data streams).
  *
+ * The stream is shared by every instance of the reactive() component with
+ * the same props and deps. Outside reactive() nothing is streamed and the
+ * initial value is returned.
+ *
  * @example
  * function Timer() {
  *   const time = useReactiveStream(
@@ -57,19 +125,27 @@ export function useReactiveStream<T>(
   streamFn: StreamFunction<T>,
   deps: any[]
 ): T {
-  // Generate unique component ID
-  const componentId = useId();
-
-  // Register stream if not already registered
-  const registrationKey = `${componentId}:${JSON.stringify(deps)}`;
+  // Re-renders for a stream update get the pushed value; the stream is already running
+  const rerender = rerenderStorage.getStore();
+  if (rerender && currentScope?.propsKey === rerender.propsKey) {
+    return rerender.data as T;
+  }
 
-  if (!registeredComponents.has(registrationKey)) {
-    const streamKey = reactiveRuntime.registerStream(componentId, deps, initialValue, streamFn);
-    registeredComponents.set(registrationKey, streamKey);
+  if (!currentScope) {
+    console.warn('[useReactiveStream] Not rendered by a reactive() component - updates are not streamed');
+    return initialValue;
   }
 
-  // Get current value from runtime
-  const streamKey = registeredComponents.get(registrationKey)!;
+  // Key the stream by component instance and deps, so it is the same on every render
+  const streamKey = reactiveRuntime.registerStream(
+    currentScope.propsKey,
+    deps,
+    initialValue,
+    streamFn
+  );
+
+  // Report the stream to the enclosing reactive() wrapper
+  currentScope.streamKey = streamKey;
   const currentValue = reactiveRuntime.getCurrentValue<T>(streamKey);
 
   return currentValue ?? initialValue;
@@ -119,10 +195,11 @@ export function useReactive<T>(
 /**
  * Get metadata about a reactive component (for internal use)
  */
-export function getReactiveMetadata(componentId: string, deps: any[]) {
-  const registrationKey = `${componentId}:${JSON.stringify(deps)}`;
+export function getReactiveMetadata(propsKey: string, deps: any[]) {
+  const streamKey = `${propsKey}:${JSON.stringify(deps)}`;
+  const isReactive = reactiveRuntime.hasStream(streamKey);
   return {
-    streamKey: registeredComponents.get(registrationKey),
-    isReactive: registeredComponents.has(registrationKey),
+    streamKey: isReactive ? streamKey : undefined,
+    isReactive,
   };
 }
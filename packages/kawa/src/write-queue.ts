@@ -0,0 +1,276 @@
+/**
+ * Write Queue - Batched, ordered sync of signal values to backends
+ *
+ * Signal writes are queued per backend and sent after a short flush window.
+ * Several writes to one key within the window collapse into the last one,
+ * and everything written in the window (so every write of a `batch()`) is
+ * sent as one multi-key write. Flushes of a backend never overlap, so
+ * writes to a key reach the backend in order. Writes that fail are queued
+ * again and retried, unless a newer write to the key replaced them.
+ *
+ * Changes to CRDT signals are queued the same way, but combine by merging
+ * and are merged into the stored document instead of replacing it.
+ */
+
+import { SignalConflictError, type SignalBackend } from './backend';
+import { fromPersisted, toPersisted } from './migrate';
+import { isCrdtDocument, mergeDocuments, type CrdtDocument } from './crdt';
+
+export interface BackendWriteOptions {
+  /**
+   * How long writes are collected before they are sent, in milliseconds
+   * @default 10
+   */
+  flushInterval?: number;
+}
+
+let flushInterval = 10;
+
+/**
+ * Configure how signal writes are sent to backends
+ *
+ * @example
+ * ```typescript
+ * // Send at most ~10 writes per second per backend
+ * configureBackendWrites({ flushInterval: 100 });
+ * ```
+ */
+export function configureBackendWrites(options: BackendWriteOptions): void {
+  if (options.flushInterval !== undefined) {
+    flushInterval = options.flushInterval;
+  }
+}
+
+// Compare-and-set attempts for merges on backends without `merge`
+const MERGE_RETRIES = 10;
+
+// Delay before failed writes are sent again, in milliseconds
+const RETRY_DELAY = 1000;
+
+interface QueuedWrite {
+  value: unknown;
+  // `value` is a CRDT change to merge, not a value to store
+  merge?: boolean;
+}
+
+/**
+ * Merge a CRDT change into a stored document
+ */
+async function mergeChange(backend: SignalBackend, key: string, change: CrdtDocument): Promise<void> {
+  if (backend.merge) {
+    await backend.merge(key, change);
+    return;
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const entry = await backend.get(key);
+    const stored = entry && fromPersisted(entry.value).value;
+    const merged = isCrdtDocument(stored) ? mergeDocuments(stored, change) : change;
+
+    try {
+      await backend.set(key, merged, { expectedVersion: entry?.version ?? 0 });
+      return;
+    } catch (error) {
+      if (!(error instanceof SignalConflictError) || attempt >= MERGE_RETRIES) throw error;
+    }
+  }
+}
+
+class WriteQueue {
+  // Key -> value to write, in the order keys were last written
+  private queued = new Map<string, QueuedWrite>();
+  // Key -> number of flushes still writing it
+  private inflight = new Map<string, number>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(private backend: SignalBackend) {}
+
+  enqueue(key: string, write: QueuedWrite): void {
+    const queued = this.queued.get(key);
+    if (write.merge && queued?.merge) {
+      const merged = mergeDocuments(queued.value as CrdtDocument, write.value as CrdtDocument);
+      write = { value: merged, merge: true };
+    }
+
+    this.queued.delete(key);
+    this.queued.set(key, write);
+    this.schedule(flushInterval);
+  }
+
+  private schedule(delay: number): void {
+    // Failures were logged by `write`; the writes stay queued
+    this.timer ??= setTimeout(() => this.flush().catch(() => {}), delay);
+  }
+
+  /**
+   * Queue writes that failed again, ahead of writes made since: those are
+   * newer, so they replace failed values and merge after failed changes
+   */
+  private requeue(failed: Array<{ key: string } & QueuedWrite>): void {
+    const queued = new Map<string, QueuedWrite>();
+    for (const { key, ...write } of failed) {
+      const newer = this.queued.get(key);
+      if (!newer) {
+        queued.set(key, write);
+      } else if (write.merge && newer.merge) {
+        const merged = mergeDocuments(write.value as CrdtDocument, newer.value as CrdtDocument);
+        queued.set(key, { value: merged, merge: true });
+      }
+    }
+    for (const [key, write] of this.queued) {
+      if (!queued.has(key)) queued.set(key, write);
+    }
+
+    this.queued = queued;
+    this.schedule(RETRY_DELAY);
+  }
+
+  has(key: string): boolean {
+    return this.queued.has(key) || this.inflight.has(key);
+  }
+
+  /**
+   * Send everything queued; resolves once it (and earlier flushes) landed
+   *
+   * @throws the first error if a write failed; failed writes stay queued
+   */
+  flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    if (this.queued.size === 0) {
+      // Earlier flushes may still fail and queue their writes again
+      return this.flushing.then(() => (this.queued.size > 0 ? this.flush() : undefined));
+    }
+
+    const entries = [...this.queued].map(([key, write]) => ({ key, ...write }));
+    this.queued = new Map();
+
+    for (const { key } of entries) {
+      this.inflight.set(key, (this.inflight.get(key) ?? 0) + 1);
+    }
+
+    const run = this.flushing.then(() => this.write(entries));
+    // Later flushes run even if this one fails; its callers get the error
+    this.flushing = run.catch(() => {});
+    return run;
+  }
+
+  private async write(entries: Array<{ key: string } & QueuedWrite>): Promise<void> {
+    const sets = entries.filter((entry) => !entry.merge);
+    const failed: Array<{ key: string } & QueuedWrite> = [];
+    const errors: unknown[] = [];
+
+    try {
+      if (sets.length > 1 && this.backend.setMany) {
+        try {
+          await this.backend.setMany(sets.map(({ key, value }) => ({ key, value })));
+        } catch (error) {
+          const keys = sets.map(({ key }) => key).join(', ');
+          console.error(`[reactive-rsc] Failed to sync signals ${keys}:`, error);
+          failed.push(...sets);
+          errors.push(error);
+        }
+      } else {
+        for (const entry of sets) {
+          try {
+            await this.backend.set(entry.key, entry.value);
+          } catch (error) {
+            console.error(`[reactive-rsc] Failed to sync signal ${entry.key}:`, error);
+            failed.push(entry);
+            errors.push(error);
+          }
+        }
+      }
+
+      for (const entry of entries.filter((entry) => entry.merge)) {
+        try {
+          await mergeChange(this.backend, entry.key, entry.value as CrdtDocument);
+        } catch (error) {
+          console.error(`[reactive-rsc] Failed to merge changes to signal ${entry.key}:`, error);
+          failed.push(entry);
+          errors.push(error);
+        }
+      }
+
+      if (failed.length > 0) {
+        this.requeue(failed);
+        throw errors[0];
+      }
+    } finally {
+      for (const { key } of entries) {
+        const count = this.inflight.get(key)! - 1;
+        if (count > 0) {
+          this.inflight.set(key, count);
+        } else {
+          this.inflight.delete(key);
+        }
+      }
+    }
+  }
+}
+
+const queues = new Map<SignalBackend, WriteQueue>();
+
+/**
+ * Queue a signal value for its backend
+ * (Internal - used by signal implementation)
+ *
+ * The value is stored in a versioned envelope (see migrate.ts).
+ */
+export function syncSignal(key: string, value: unknown, backend: SignalBackend, version = 0): void {
+  getQueue(backend).enqueue(key, { value: toPersisted(value, version) });
+}
+
+/**
+ * Queue a change to a CRDT signal for its backend
+ * (Internal - used by CRDT signals)
+ */
+export function syncCrdtChange(key: string, change: CrdtDocument, backend: SignalBackend): void {
+  getQueue(backend).enqueue(key, { value: change, merge: true });
+}
+
+function getQueue(backend: SignalBackend): WriteQueue {
+  let queue = queues.get(backend);
+  if (!queue) {
+    queue = new WriteQueue(backend);
+    queues.set(backend, queue);
+  }
+  return queue;
+}
+
+/**
+ * Whether this process has a write of the key queued or in flight
+ * (Internal - used by cross-server propagation)
+ */
+export function hasPendingWrite(backend: SignalBackend, key: string): boolean {
+  return queues.get(backend)?.has(key) ?? false;
+}
+
+/**
+ * Send the queued writes of one backend
+ * (Internal - used by atomic updates, which must see this process's writes)
+ */
+export function flushBackend(backend: SignalBackend): Promise<void> {
+  return queues.get(backend)?.flush() ?? Promise.resolve();
+}
+
+/**
+ * Send every queued signal write now
+ *
+ * Resolves once all writes made so far reached their backends, and rejects
+ * if some failed (they stay queued and are retried). Await it before the
+ * process exits so the last writes aren't lost.
+ *
+ * @example
+ * ```typescript
+ * process.on('SIGTERM', async () => {
+ *   await flush();
+ *   process.exit(0);
+ * });
+ * ```
+ */
+export async function flush(): Promise<void> {
+  await Promise.all([...queues.values()].map((queue) => queue.flush()));
+}
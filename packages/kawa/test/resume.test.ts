@@ -0,0 +1,102 @@
+import { createElement, type ReactNode } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { decodeChunkFrame, type ReactiveFrame } from '../src/protocol';
+
+vi.mock('kawa/client', () => ({
+  Reactive: (props: { token: string; children?: ReactNode }) => props.children,
+}));
+
+/**
+ * Stand-in for an RSC renderer: runs function components and streams the
+ * text they render
+ */
+function renderToReadableStream(model: ReactNode): ReadableStream<Uint8Array> {
+  const text = (node: any): string => {
+    if (node === null || node === undefined || typeof node === 'boolean') return '';
+    if (typeof node !== 'object') return String(node);
+    if (Array.isArray(node)) return node.map(text).join('');
+    if (typeof node.type === 'function') return text(node.type(node.props));
+    return text(node.props.children);
+  };
+  const body = new TextEncoder().encode(text(model));
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(body);
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Start a server: a fresh module graph, so no stream is registered yet
+ */
+async function startServer() {
+  vi.resetModules();
+  const kawa = await import('../src/index');
+  kawa.configureStreamTokens({ secret: 'test-secret' });
+
+  const Counter = kawa.reactive(function Counter({ step }: { step: number }) {
+    const count = kawa.useReactiveStream(
+      0,
+      (stream) => {
+        stream.next(step * 10);
+      },
+      [step]
+    );
+    return createElement('p', null, count);
+  });
+
+  const frames: ReactiveFrame[] = [];
+  const chunks: string[] = [];
+  const listeners: Record<string, (event: any) => void> = {};
+  const socket = {
+    readyState: 1,
+    send(data: string | Uint8Array) {
+      if (typeof data === 'string') frames.push(JSON.parse(data));
+      else chunks.push(new TextDecoder().decode(decodeChunkFrame(data).chunk));
+    },
+    close() {},
+    addEventListener(type: string, listener: (event: any) => void) {
+      listeners[type] = listener;
+    },
+  };
+
+  kawa.createReactiveSocketHandler({ renderToReadableStream })(
+    socket,
+    new Request('http://localhost/api/reactive')
+  );
+
+  return {
+    Counter,
+    frames,
+    chunks,
+    subscribe: (token: string, lastEventId?: string) =>
+      listeners.message({
+        data: JSON.stringify({ type: 'subscribe', id: 'counter', token, lastEventId }),
+      }),
+    stop: () => listeners.close({}),
+  };
+}
+
+describe('resuming a subscription', () => {
+  it('registers the stream again on a server that never rendered it', async () => {
+    // Server A renders the component and streams an update
+    const a = await startServer();
+    const rendered = (await a.Counter({ step: 2 })) as { props: { token: string } };
+    const { token } = rendered.props;
+
+    a.subscribe(token);
+    await vi.waitFor(() => expect(a.frames.some((frame) => frame.type === 'RSC_END')).toBe(true));
+    const lastEnd = a.frames.filter((frame) => frame.type === 'RSC_END').pop()!;
+    a.stop();
+
+    // Server B (a restart, or another instance) resumes from A's last event
+    const b = await startServer();
+    b.subscribe(token, (lastEnd as { eventId: string }).eventId);
+
+    await vi.waitFor(() => expect(b.chunks).toContain('20'));
+    expect(b.frames.map((frame) => frame.type)).toContain('subscribed');
+    expect(b.frames.some((frame) => frame.type === 'SUBSCRIBE_ERROR')).toBe(false);
+    b.stop();
+  });
+});
@@ -1,10 +1,10 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts', 'src/rivetkit/index.ts'],
+  entry: ['src/index.ts', 'src/rivetkit/index.ts', 'src/backends/index.ts', 'src/client/index.ts'],
   format: ['esm'],
   dts: true,
   clean: true,
   sourcemap: true,
-  external: ['react', 'rivetkit'],
+  external: ['react', 'rivetkit', '@vitejs/plugin-rsc', 'kawa/client'],
 });
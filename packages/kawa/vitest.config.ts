@@ -0,0 +1,10 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      'kawa/client': fileURLToPath(new URL('./src/client/index.ts', import.meta.url)),
+    },
+  },
+});